@@ -2,6 +2,10 @@ import React from 'react';
 import { StatusBar } from 'react-native';
 import { GameProvider } from './src/contexts/GameContext';
 import AppNavigator from './src/navigation/AppNavigator';
+import { auth, database } from './src/config/firebase';
+import { createFirebaseBackend, setBackend } from './src/services/backend';
+
+setBackend(createFirebaseBackend(database, auth));
 
 const App: React.FC = () => {
   return (
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+// __tests__/concurrency.test.ts
+
+import { createMemoryStore, MemoryStore } from '../src/services/backend';
+import { getDeckCards } from '../src/data/decks';
+import { GameState, Room } from '../src/types';
+import { connectClient, TestClient, waitUntil } from './helpers/clients';
+
+const PROFILE = (id: string) => ({ id, nickname: id.toUpperCase(), avatar: '🙂' });
+
+/**
+ * Sala com o anfitrião e os convidados informados, cada um no próprio aparelho
+ */
+const setupRoom = async (store: MemoryStore, guests: string[]) => {
+  const host = connectClient(store, 'uid-ana');
+  const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+  const clients: { [playerId: string]: TestClient } = { ana: host };
+  for (const guest of guests) {
+    clients[guest] = connectClient(store, `uid-${guest}`);
+    await clients[guest].rooms.joinRoom(room.code, PROFILE(guest));
+  }
+  return { room, host, clients };
+};
+
+describe('entradas simultâneas', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('não deixa a sala passar do limite quando vários entram na última vaga', async () => {
+    const store = createMemoryStore();
+    const { room, host } = await setupRoom(store, ['bia', 'caio']);
+    const latecomers = ['davi', 'eva', 'fabi', 'gil'];
+
+    const results = await Promise.allSettled([
+      ...latecomers.map(id => connectClient(store, `uid-${id}`).rooms.joinRoom(room.code, PROFILE(id))),
+      host.bots.addBotToRoom(room.id),
+    ]);
+
+    const stored = store.read<Room>(`rooms/${room.id}`) as Room;
+    expect(Object.keys(stored.players)).toHaveLength(stored.maxPlayers);
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    results
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+      .forEach(r => expect(r.reason.message).toBe('Sala lotada'));
+    // Só quem entrou de fato fica registrado como membro
+    expect(Object.keys(stored.members || {})).toHaveLength(
+      Object.values(stored.players).filter(p => !p.isBot).length
+    );
+  });
+
+  it('não deixa bots adicionados ao mesmo tempo ocuparem mais vagas que as livres', async () => {
+    const store = createMemoryStore();
+    const { room, host } = await setupRoom(store, ['bia']);
+
+    const results = await Promise.allSettled([0, 1, 2, 3].map(() => host.bots.addBotToRoom(room.id)));
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(2);
+    expect(Object.keys(store.read(`rooms/${room.id}/players`) || {})).toHaveLength(4);
+  });
+});
+
+describe('jogadas simultâneas', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('avança a rodada quando os dois últimos jogadores jogam ao mesmo tempo', async () => {
+    const store = createMemoryStore();
+    const { room, host, clients } = await setupRoom(store, ['bia', 'caio']);
+    const state = await host.games.startGame(room.id, ['ana', 'bia', 'caio'], getDeckCards('paises'), 7);
+
+    // O anfitrião aplica as jogadas e cada aparelho revela as próprias cartas
+    // quando a partida chega à revelação, como o GameScreen
+    const stops = Object.entries(clients).map(([playerId, client]) => client.games.listenToGameState(
+      room.id,
+      view => { client.games.revealPendingCards(room.id, view).catch(() => {}); },
+      undefined,
+      client === host ? undefined : playerId
+    ));
+    stops.push(host.games.serveGameMoves(room.id));
+
+    const later = Date.now() + 5000;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+    await host.games.advanceOverduePhase(room.id);
+
+    const chooser = store.read<string>(`games/${room.id}/currentPlayer`) as string;
+    const others = ['ana', 'bia', 'caio'].filter(p => p !== chooser);
+
+    await clients[chooser].games.playCard(room.id, chooser, state.playerCards[chooser][0]);
+    await clients[chooser].games.selectAttributeAndProcess(room.id, chooser, 'População');
+    await Promise.all(others.map(p => clients[p].games.playCard(room.id, p, state.playerCards[p][0])));
+    await waitUntil(() => Object.keys(store.read(`games/${room.id}/currentRoundCards`) || {}).length === 3);
+
+    const after = store.read<GameState>(`games/${room.id}`) as GameState;
+    stops.forEach(stop => stop());
+
+    expect(after.gamePhase).toBe('animating-play');
+    expect(Object.keys(after.cardCommitments || {}).sort()).toEqual(['ana', 'bia', 'caio']);
+    expect(Object.keys(after.currentRoundCards || {}).sort()).toEqual(['ana', 'bia', 'caio']);
+
+    // E a rodada segue até a comparação
+    jest.spyOn(Date, 'now').mockReturnValue(later + 5000);
+    await host.games.advanceOverduePhase(room.id);
+    expect(store.read(`games/${room.id}/gamePhase`)).toBe('comparing-on-table');
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * @jest-environment node
+ */
+// __tests__/database.rules.test.ts
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// Precisa do emulador do Realtime Database (e de Java): `npm run test:rules`, como no CI
+const describeWithEmulator = process.env.FIREBASE_DATABASE_EMULATOR_HOST ? describe : describe.skip;
+
+const ROOM_ID = 'sala-1';
+
+const player = (id: string, extra: object = {}) => ({
+  id,
+  nickname: id.toUpperCase(),
+  avatar: '🙂',
+  isHost: id === 'ana',
+  joinedAt: '2024-01-01T00:00:00.000Z',
+  isReady: true,
+  status: 'active',
+  connection: 'online',
+  ...extra,
+});
+
+// Partida em andamento: Ana é a anfitriã, Bia e Caio jogam em outros aparelhos e há um bot
+const ROOM = {
+  code: 'ABC123',
+  deckId: 'paises',
+  deckName: 'Países',
+  hostId: 'ana',
+  status: 'playing',
+  maxPlayers: 4,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  lastActivity: 1,
+  settings: { playMode: 'classic' },
+  players: {
+    ana: player('ana'),
+    bia: player('bia'),
+    caio: player('caio'),
+    'bot-1': player('bot-1', { isBot: true, botDifficulty: 'medium' }),
+  },
+  members: { 'uid-ana': 'ana', 'uid-bia': 'bia', 'uid-caio': 'caio' },
+  seriesScores: { ana: 2 },
+};
+
+const GAME = {
+  gamePhase: 'selecting',
+  currentPlayer: 'bia',
+  gameWinner: null,
+  lastActivity: 1,
+  events: { 0: { seq: 0, at: 1, action: { type: 'DEAL', players: ['ana', 'bia', 'caio', 'bot-1'] } } },
+};
+
+describeWithEmulator('regras do Realtime Database', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const as = (uid: string) => testEnv.authenticatedContext(uid).database();
+
+  const seed = (data: object) => testEnv.withSecurityRulesDisabled(async context => {
+    await context.database().ref().set(data);
+  });
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-trunfia',
+      database: { rules: readFileSync(resolve(__dirname, '../database.rules.json'), 'utf8') },
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearDatabase();
+    await seed({
+      rooms: { [ROOM_ID]: ROOM },
+      games: { [ROOM_ID]: GAME },
+      hands: { [ROOM_ID]: { ana: ['c1'], bia: ['c2'], caio: ['c3'], 'bot-1': ['c4'] } },
+      gameSecrets: { [ROOM_ID]: { ...GAME, seed: 'semente' } },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  describe('partida', () => {
+    it('só o anfitrião grava a partida, as mãos e a parte secreta', async () => {
+      await assertSucceeds(as('uid-ana').ref(`games/${ROOM_ID}/currentPlayer`).set('caio'));
+      await assertSucceeds(as('uid-ana').ref(`hands/${ROOM_ID}/bia`).set(['c2', 'c1']));
+      await assertFails(as('uid-bia').ref(`games/${ROOM_ID}/currentPlayer`).set('bia'));
+      await assertFails(as('uid-bia').ref(`hands/${ROOM_ID}/bia`).set(['c1', 'c2', 'c3']));
+      await assertFails(as('uid-bia').ref(`gameSecrets/${ROOM_ID}/seed`).set('outra'));
+    });
+
+    it('só acrescenta eventos ao histórico, sem regravar os que já existem', async () => {
+      const event = (seq: number) => ({ seq, at: Date.now(), action: { type: 'START_SELECTING' } });
+
+      await assertSucceeds(as('uid-ana').ref(`games/${ROOM_ID}/events/1`).set(event(1)));
+      await assertFails(as('uid-ana').ref(`games/${ROOM_ID}/events/0`).set(event(0)));
+      await assertFails(as('uid-ana').ref(`games/${ROOM_ID}/events`).remove());
+      await assertFails(as('uid-ana').ref(`games/${ROOM_ID}`).set({ ...GAME, events: null }));
+      await assertFails(as('uid-ana').ref(`games/${ROOM_ID}/events/2`).set(event(3)));
+      await assertFails(as('uid-bia').ref(`games/${ROOM_ID}/events/2`).set(event(2)));
+    });
+
+    it('deixa cada jogador ler só a própria mão', async () => {
+      await assertSucceeds(as('uid-bia').ref(`hands/${ROOM_ID}/bia`).get());
+      await assertSucceeds(as('uid-bia').ref(`games/${ROOM_ID}`).get());
+      await assertFails(as('uid-bia').ref(`hands/${ROOM_ID}/caio`).get());
+      await assertFails(as('uid-bia').ref(`hands/${ROOM_ID}`).get());
+      await assertFails(as('uid-bia').ref(`gameSecrets/${ROOM_ID}`).get());
+      await assertSucceeds(as('uid-ana').ref(`hands/${ROOM_ID}`).get());
+      await assertSucceeds(as('uid-ana').ref(`gameSecrets/${ROOM_ID}`).get());
+    });
+
+    it('aceita jogadas só em nome de quem as envia e respostas só do anfitrião', async () => {
+      const move = (playerId: string) => ({
+        player: playerId,
+        action: { type: 'SELECT_ATTRIBUTE', player: playerId, attribute: 'População' },
+      });
+
+      await assertSucceeds(as('uid-bia').ref(`gameMoves/${ROOM_ID}/m1`).set(move('bia')));
+      await assertFails(as('uid-bia').ref(`gameMoves/${ROOM_ID}/m2`).set(move('caio')));
+      await assertFails(as('uid-bia').ref(`gameMoves/${ROOM_ID}/m3`).set({ player: 'bia', action: { type: 'DEAL', player: 'bia' } }));
+      await assertFails(as('uid-bia').ref(`gameMoves/${ROOM_ID}/m1/result`).set({ ok: true }));
+      await assertFails(as('uid-caio').ref(`gameMoves/${ROOM_ID}/m1`).get());
+      await assertSucceeds(as('uid-ana').ref(`gameMoves/${ROOM_ID}/m1/result`).set({ ok: true }));
+      await assertSucceeds(as('uid-bia').ref(`gameMoves/${ROOM_ID}/m1`).remove());
+    });
+  });
+
+  describe('jogadores da sala', () => {
+    it('deixa o jogador alterar e tirar só a si mesmo', async () => {
+      await assertSucceeds(as('uid-bia').ref(`rooms/${ROOM_ID}/players/bia/avatar`).set('😎'));
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio/avatar`).set('😎'));
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio`).remove());
+      await assertSucceeds(as('uid-bia').ref(`rooms/${ROOM_ID}/players/bia`).remove());
+    });
+
+    it('não deixa um membro tirar outro jogador regravando a sala inteira', async () => {
+      const { caio, ...players } = ROOM.players;
+      expect(caio).toBeDefined();
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}`).set({ ...ROOM, players }));
+    });
+
+    it('deixa o anfitrião tirar bots, mas não pessoas conectadas', async () => {
+      await assertSucceeds(as('uid-ana').ref(`rooms/${ROOM_ID}/players/bot-1`).remove());
+      await assertFails(as('uid-ana').ref(`rooms/${ROOM_ID}/players/caio`).remove());
+    });
+
+    it('deixa qualquer membro tirar quem não voltou no prazo de reconexão', async () => {
+      await seed({
+        rooms: {
+          [ROOM_ID]: {
+            ...ROOM,
+            players: { ...ROOM.players, caio: player('caio', { connection: 'offline', disconnectedAt: Date.now() - 2 * 60 * 1000 }) },
+          },
+        },
+      });
+      await assertSucceeds(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio`).remove());
+      await assertSucceeds(as('uid-bia').ref(`rooms/${ROOM_ID}/members/uid-caio`).remove());
+    });
+
+    it('não deixa um membro apagar campos de outro jogador para depois tirá-lo como nó parcial', async () => {
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio/id`).remove());
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio/connection`).remove());
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio/isBot`).set(true));
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio`).remove());
+    });
+
+    it('deixa só o anfitrião eliminar jogadores', async () => {
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/players/caio/status`).set('eliminated'));
+      await assertSucceeds(as('uid-ana').ref(`rooms/${ROOM_ID}/players/caio/status`).set('eliminated'));
+    });
+  });
+
+  describe('entrada na sala', () => {
+    const { 'bot-1': bot, ...people } = ROOM.players;
+    const davi = player('davi', { isHost: false, isReady: false });
+
+    beforeEach(async () => {
+      expect(bot).toBeDefined();
+      await seed({ rooms: { [ROOM_ID]: { ...ROOM, status: 'waiting', players: people } } });
+    });
+
+    it('registra o aparelho e depois ocupa a vaga pela transação dos jogadores', async () => {
+      const visitor = as('uid-davi');
+
+      await assertFails(visitor.ref(`rooms/${ROOM_ID}/players`).set({ ...people, davi }));
+      await assertSucceeds(visitor.ref(`rooms/${ROOM_ID}/members/uid-davi`).set('davi'));
+      await assertFails(visitor.ref(`rooms/${ROOM_ID}/players/davi`).set(davi));
+      await assertSucceeds(visitor.ref(`rooms/${ROOM_ID}/players`).set({ ...people, davi }));
+    });
+
+    it('não deixa quem entra tirar outro jogador nem trazer mais alguém junto', async () => {
+      const visitor = as('uid-davi');
+      const { caio, ...others } = people;
+      expect(caio).toBeDefined();
+
+      await assertSucceeds(visitor.ref(`rooms/${ROOM_ID}/members/uid-davi`).set('davi'));
+      await assertFails(visitor.ref(`rooms/${ROOM_ID}/players`).set({ ...others, davi }));
+      await assertFails(visitor.ref(`rooms/${ROOM_ID}/players`).set({
+        ...others,
+        davi,
+        eva: player('eva', { isHost: false }),
+      }));
+    });
+
+    it('não deixa ninguém se registrar com o jogador de outra pessoa nem trocar o próprio registro', async () => {
+      await assertFails(as('uid-davi').ref(`rooms/${ROOM_ID}/members/uid-davi`).set('ana'));
+      await assertFails(as('uid-davi').ref(`rooms/${ROOM_ID}/members/uid-davi`).set('bia'));
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/members/uid-bia`).set('ana'));
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/members/uid-davi`).set('davi'));
+    });
+  });
+
+  describe('campos da sala', () => {
+    it('não deixa um membro passar a ser o anfitrião trocando o próprio registro', async () => {
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}/members/uid-bia`).set('ana'));
+      await assertFails(as('uid-bia').ref().update({
+        [`rooms/${ROOM_ID}/members/uid-bia`]: 'ana',
+        [`rooms/${ROOM_ID}/members/uid-ana`]: null,
+      }));
+      await assertFails(as('uid-bia').ref(`hands/${ROOM_ID}`).get());
+    });
+
+    it('não deixa apagar o anfitrião, a situação, o baralho nem as regras da sala', async () => {
+      for (const uid of ['uid-ana', 'uid-bia']) {
+        await assertFails(as(uid).ref(`rooms/${ROOM_ID}/hostId`).remove());
+        await assertFails(as(uid).ref(`rooms/${ROOM_ID}/status`).remove());
+        await assertFails(as(uid).ref(`rooms/${ROOM_ID}/deckId`).remove());
+        await assertFails(as(uid).ref(`rooms/${ROOM_ID}/settings`).remove());
+        await assertFails(as(uid).ref(`rooms/${ROOM_ID}/settings/playMode`).remove());
+      }
+    });
+
+    it('não deixa um membro regravar a sala inteira', async () => {
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}`).set({ ...ROOM, hostId: 'bia' }));
+      await assertFails(as('uid-ana').ref(`rooms/${ROOM_ID}`).set({ ...ROOM, deckId: 'carros' }));
+    });
+  });
+
+  describe('criação e remoção da sala', () => {
+    it('deixa criar uma sala nova só como anfitrião dela', async () => {
+      const { seriesScores, ...stored } = ROOM;
+      expect(seriesScores).toBeDefined();
+      const room = { ...stored, status: 'waiting', players: { ana: player('ana') }, members: { 'uid-ana': 'ana' } };
+
+      await assertSucceeds(as('uid-ana').ref('rooms/sala-2').set(room));
+      await assertFails(as('uid-bia').ref('rooms/sala-3').set(room));
+      await assertFails(as('uid-bia').ref('rooms/sala-3').set({ ...room, members: { 'uid-bia': 'bia' } }));
+    });
+
+    it('não deixa quem não é membro apagar uma partida em andamento só porque o anfitrião caiu', async () => {
+      const recent = Date.now();
+      await seed({
+        rooms: {
+          [ROOM_ID]: {
+            ...ROOM,
+            lastActivity: recent,
+            players: { ...ROOM.players, ana: player('ana', { connection: 'offline', disconnectedAt: recent - 10 * 60 * 1000 }) },
+          },
+        },
+        games: { [ROOM_ID]: { ...GAME, lastActivity: recent } },
+      });
+      await assertFails(as('uid-visitante').ref(`rooms/${ROOM_ID}`).remove());
+      await assertFails(as('uid-bia').ref(`rooms/${ROOM_ID}`).remove());
+    });
+
+    it('deixa qualquer um apagar a sala parada além do limite', async () => {
+      await assertSucceeds(as('uid-visitante').ref(`rooms/${ROOM_ID}`).remove());
+    });
+  });
+
+  describe('lista pública', () => {
+    it('deixa qualquer um completar a chave e o ID de uma sala aberta da versão 1, mas não trocá-los', async () => {
+      const { hostId, ...oldRoom } = ROOM;
+      expect(hostId).toBe('ana');
+      await seed({ rooms: { antiga: { ...oldRoom, hostNickname: 'ana', status: 'waiting', members: null } } });
+      const visitor = as('uid-visitante');
+
+      await assertSucceeds(visitor.ref().update({
+        'rooms/antiga/id': 'antiga',
+        'rooms/antiga/listing': 'paises|01|0000000000001',
+      }));
+      await assertFails(visitor.ref('rooms/antiga/listing').set('paises|03|0000000000001'));
+      await assertFails(visitor.ref('rooms/antiga/id').set('outra'));
+    });
+  });
+
+  describe('placar da série', () => {
+    const finish = (playerId: string, score: number) => ({
+      [`rooms/${ROOM_ID}/status`]: 'finished',
+      [`rooms/${ROOM_ID}/seriesScores/${playerId}`]: score,
+    });
+
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(`games/${ROOM_ID}`).update({ gamePhase: 'finished', gameWinner: 'ana' });
+      });
+    });
+
+    it('soma um ponto ao vencedor quando o anfitrião encerra a partida', async () => {
+      await assertSucceeds(as('uid-ana').ref().update(finish('ana', 3)));
+    });
+
+    it('não soma pontos a quem não venceu, fora do fim da partida ou a pedido de outro membro', async () => {
+      await assertFails(as('uid-ana').ref().update(finish('bia', 1)));
+      await assertFails(as('uid-ana').ref().update(finish('ana', 5)));
+      await assertFails(as('uid-bia').ref().update(finish('ana', 3)));
+      await assertFails(as('uid-ana').ref(`rooms/${ROOM_ID}/seriesScores/ana`).set(3));
+    });
+  });
+});
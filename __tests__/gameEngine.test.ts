@@ -0,0 +1,450 @@
+// __tests__/gameEngine.test.ts
+
+import { Card, GameSettings, GameState, TeamId } from '../src/types';
+import {
+  applyAction,
+  applyEvent,
+  buildRanking,
+  EngineAction,
+  EngineContext,
+  GameEvent,
+  replayActions,
+  replayEvents,
+} from '../src/utils/gameEngine';
+import { GameRuleError } from '../src/utils/gameErrors';
+import { createCardCommitment } from '../src/utils/hash';
+
+const CARDS: Card[] = Array.from({ length: 10 }, (_, index) => ({
+  id: `c${index + 1}`,
+  name: `Carta ${index + 1}`,
+  attributes: { forca: (index + 1) * 10 },
+}));
+
+const CONTEXT: EngineContext = {
+  cards: CARDS,
+  attributes: { forca: { label: 'Força', direction: 'higher-wins' } },
+};
+
+const PLAYERS = ['ana', 'bia', 'caio'];
+const START = '2024-01-01T00:00:00.000Z';
+
+const dealAction = (seed: number, settings: Partial<GameSettings> = {}, players = PLAYERS): EngineAction => ({
+  type: 'DEAL',
+  players,
+  seed,
+  settings,
+  timestamp: START,
+});
+
+/**
+ * Aplica as ações em sequência, guardando cada uma em `log`
+ */
+const run = (state: GameState | null, actions: EngineAction[], log?: EngineAction[]): GameState => {
+  return actions.reduce<GameState | null>((current, action) => {
+    log?.push(action);
+    return applyAction(current, action, CONTEXT);
+  }, state) as GameState;
+};
+
+/**
+ * Ações de uma rodada completa, de 'selecting' até 'animating-win'
+ */
+const roundActions = (
+  chooser: string,
+  played: { [player: string]: string },
+  timestamp: string = START
+): EngineAction[] => [
+  ...Object.entries(played).map(([player, cardId]): EngineAction => ({
+    type: 'COMMIT_CARD',
+    player,
+    commitment: createCardCommitment(player, cardId, `sal-${player}`),
+  })),
+  { type: 'SELECT_ATTRIBUTE', player: chooser, attribute: 'forca' },
+  ...Object.entries(played).map(([player, cardId]): EngineAction => ({
+    type: 'REVEAL_CARD',
+    player,
+    cardId,
+    salt: `sal-${player}`,
+  })),
+  { type: 'RESOLVE_ROUND' },
+  { type: 'COLLECT', timestamp },
+];
+
+/**
+ * Partida recém-distribuída com mãos e primeiro jogador definidos pelo teste
+ */
+const withHands = (
+  hands: { [player: string]: string[] },
+  settings: Partial<GameSettings> = {},
+  currentPlayer: string = Object.keys(hands)[0]
+): GameState => {
+  const dealt = run(null, [dealAction(1, settings, Object.keys(hands)), { type: 'START_SELECTING' }]);
+  return { ...dealt, playerCards: hands, currentPlayer, pot: [], discardedCards: [] };
+};
+
+describe('distribuição com semente', () => {
+  it('gera as mesmas mãos e o mesmo primeiro jogador para a mesma semente', () => {
+    const first = applyAction(null, dealAction(42), CONTEXT);
+    const second = applyAction(null, dealAction(42), CONTEXT);
+    expect(second).toEqual(first);
+    expect(first.rngState).toBeDefined();
+  });
+
+  it('gera outra distribuição para outra semente', () => {
+    const first = applyAction(null, dealAction(42), CONTEXT);
+    const other = applyAction(null, dealAction(7), CONTEXT);
+    expect(other.playerCards).not.toEqual(first.playerCards);
+  });
+
+  it('reproduz a partida inteira a partir da semente e da lista de ações', () => {
+    const log: EngineAction[] = [];
+    let state = run(null, [dealAction(2024), { type: 'START_SELECTING' }], log);
+
+    for (let round = 0; round < 3 && state.gamePhase !== 'finished'; round++) {
+      const played = Object.fromEntries(
+        PLAYERS.filter(p => !state.eliminatedPlayers?.includes(p)).map(p => [p, state.playerCards[p][0]])
+      );
+      state = run(state, roundActions(state.currentPlayer, played), log);
+      if (state.gamePhase === 'animating-win') {
+        state = run(state, [{ type: 'NEXT_ROUND' }], log);
+      }
+    }
+
+    expect(replayActions(log, CONTEXT)).toEqual(state);
+    expect(replayActions(log, CONTEXT)).toEqual(replayActions(log, CONTEXT));
+  });
+
+  it('refaz prazos e última atividade ao reproduzir o histórico de eventos', () => {
+    const events: GameEvent[] = [
+      { seq: 0, at: 1000, action: dealAction(5) },
+      { seq: 1, at: 5000, action: { type: 'START_SELECTING' } },
+    ];
+    const dealt = applyEvent(null, events[0], CONTEXT);
+    expect(dealt.phaseDeadline).toBe(new Date(1000 + 4000).toISOString());
+
+    const replayed = replayEvents(events, CONTEXT);
+    expect(replayed).toEqual(applyEvent(dealt, events[1], CONTEXT));
+    expect(replayed?.phaseDeadline).toBeUndefined();
+    expect(replayed?.lastActivity).toBe(5000);
+  });
+
+  it('rejeita ações fora da fase correta', () => {
+    const dealt = applyAction(null, dealAction(1), CONTEXT);
+    expect(() => applyAction(dealt, { type: 'RESOLVE_ROUND' }, CONTEXT)).toThrow(GameRuleError);
+    expect(() => applyAction(dealt, dealAction(1), CONTEXT)).toThrow(GameRuleError);
+  });
+});
+
+describe('empates e monte acumulado', () => {
+  const TIED_CARDS: Card[] = [
+    ...CARDS,
+    { id: 'x50', name: 'Outra 50', attributes: { forca: 50 } },
+  ];
+
+  it('leva as cartas empatadas ao monte e dá o monte ao vencedor seguinte', () => {
+    const context = { ...CONTEXT, cards: TIED_CARDS };
+    const start = withHands({ ana: ['c5', 'c1'], bia: ['x50', 'c9'], caio: ['c2', 'c3'] }, {}, 'caio');
+
+    let state = roundActions('caio', { ana: 'c5', bia: 'x50', caio: 'c2' })
+      .reduce((current, action) => applyAction(current, action, context), start);
+    expect(state.roundWinner).toBeNull();
+    expect(state.tiedPlayers).toEqual(['ana', 'bia']);
+    expect([...(state.pot || [])].sort()).toEqual(['c2', 'c5', 'x50']);
+
+    // Após o empate quem escolheu o atributo escolhe de novo
+    state = applyAction(state, { type: 'NEXT_ROUND' }, context);
+    expect(state.currentPlayer).toBe('caio');
+
+    state = roundActions('caio', { ana: 'c1', bia: 'c9', caio: 'c3' })
+      .reduce((current, action) => applyAction(current, action, context), state);
+    expect(state.roundWinner).toBe('bia');
+    expect(state.pot).toEqual([]);
+    expect([...state.playerCards.bia].sort()).toEqual(['c1', 'c2', 'c3', 'c5', 'c9', 'x50']);
+    expect(state.roundHistory.map(r => r.isDraw)).toEqual([true, false]);
+  });
+});
+
+describe('modo carta do topo', () => {
+  const settings: Partial<GameSettings> = { playMode: 'top-card' };
+
+  it('só aceita a primeira carta do monte', () => {
+    const start = withHands({ ana: ['c1', 'c9'], bia: ['c2', 'c3'] }, settings);
+    const actions = roundActions('ana', { ana: 'c9', bia: 'c2' });
+    expect(() => run(start, actions)).toThrow(
+      expect.objectContaining({ code: 'TOP_CARD_ONLY' })
+    );
+  });
+
+  it('põe as cartas ganhas no fundo do monte a partir do vencedor, seguidas do monte acumulado', () => {
+    const start = {
+      ...withHands({ ana: ['c1', 'c4'], bia: ['c8', 'c5'], caio: ['c2', 'c6'] }, settings),
+      pot: ['c10'],
+    };
+    const state = run(start, roundActions('ana', { ana: 'c1', bia: 'c8', caio: 'c2' }));
+    expect(state.roundWinner).toBe('bia');
+    expect(state.playerCards.bia).toEqual(['c5', 'c8', 'c2', 'c1', 'c10']);
+  });
+});
+
+describe('estratégias de distribuição', () => {
+  const handSizes = (state: GameState) => PLAYERS.map(p => state.playerCards[p].length);
+
+  it('equal-discard dá o mesmo número a todos e descarta a sobra', () => {
+    const state = applyAction(null, dealAction(3, { dealingStrategy: 'equal-discard' }), CONTEXT);
+    expect(handSizes(state)).toEqual([3, 3, 3]);
+    expect(state.discardedCards).toHaveLength(1);
+    expect(state.pot).toEqual([]);
+  });
+
+  it('round-robin dá a sobra aos primeiros jogadores', () => {
+    const state = applyAction(null, dealAction(3, { dealingStrategy: 'round-robin' }), CONTEXT);
+    expect(handSizes(state)).toEqual([4, 3, 3]);
+    expect(state.discardedCards).toEqual([]);
+  });
+
+  it('remainder-to-pot começa a partida com a sobra no monte', () => {
+    const state = applyAction(null, dealAction(3, { dealingStrategy: 'remainder-to-pot' }), CONTEXT);
+    expect(handSizes(state)).toEqual([3, 3, 3]);
+    expect(state.pot).toHaveLength(1);
+    expect(state.discardedCards).toEqual([]);
+  });
+
+  it('handicap dá mais cartas a quem tem handicap maior', () => {
+    const action: EngineAction = {
+      ...(dealAction(3, { dealingStrategy: 'handicap' }) as Extract<EngineAction, { type: 'DEAL' }>),
+      handicaps: { caio: 2 },
+    };
+    const state = applyAction(null, action, CONTEXT);
+    expect(handSizes(state)).toEqual([2, 2, 6]);
+  });
+
+  it('distribui todas as cartas sem repetir nenhuma', () => {
+    const state = applyAction(null, dealAction(9, { dealingStrategy: 'remainder-to-pot' }), CONTEXT);
+    const all = [...PLAYERS.flatMap(p => state.playerCards[p]), ...(state.pot || [])];
+    expect([...all].sort()).toEqual(CARDS.map(card => card.id).sort());
+  });
+});
+
+describe('retirada de cartas', () => {
+  const commit = (player: string, cardId: string): EngineAction => ({
+    type: 'COMMIT_CARD',
+    player,
+    commitment: createCardCommitment(player, cardId, `sal-${player}`),
+  });
+  const reveal = (player: string, cardId: string): EngineAction => ({
+    type: 'REVEAL_CARD',
+    player,
+    cardId,
+    salt: `sal-${player}`,
+  });
+  const start = () => withHands({ ana: ['c1', 'c2'], bia: ['c9', 'c3'], caio: ['c4', 'c5'] });
+
+  it('deixa só quem teve a carta retirada jogar de novo antes das revelações', () => {
+    const state = run(start(), [
+      commit('ana', 'c1'),
+      commit('bia', 'c9'),
+      { type: 'SELECT_ATTRIBUTE', player: 'ana', attribute: 'forca' },
+      { type: 'WITHDRAW_CARD', player: 'bia' },
+    ]);
+
+    expect(state.gamePhase).toBe('selecting');
+    expect(Object.keys(state.cardCommitments || {})).toEqual(['ana']);
+  });
+
+  it('anula as jogadas da rodada se alguma carta já foi revelada', () => {
+    const state = run(start(), [
+      commit('ana', 'c1'),
+      commit('bia', 'c9'),
+      { type: 'SELECT_ATTRIBUTE', player: 'ana', attribute: 'forca' },
+      commit('caio', 'c4'),
+      reveal('ana', 'c1'),
+      reveal('bia', 'c9'),
+      { type: 'WITHDRAW_CARD', player: 'caio' },
+    ]);
+
+    expect(state.gamePhase).toBe('selecting');
+    expect(state.selectedAttribute).toBe('forca');
+    expect(state.currentRoundCards).toEqual({});
+    expect(state.cardSalts).toEqual({});
+    expect(state.cardCommitments).toEqual({});
+
+    // Todos jogam de novo, com outras cartas se quiserem
+    const replayed = run(state, [
+      commit('ana', 'c2'),
+      commit('bia', 'c3'),
+      commit('caio', 'c5'),
+      reveal('ana', 'c2'),
+      reveal('bia', 'c3'),
+      reveal('caio', 'c5'),
+    ]);
+    expect(replayed.gamePhase).toBe('animating-play');
+    expect(replayed.currentRoundCards).toEqual({ ana: 'c2', bia: 'c3', caio: 'c5' });
+  });
+
+  it('não retira carta já revelada', () => {
+    const state = run(start(), [
+      commit('ana', 'c1'),
+      commit('bia', 'c9'),
+      commit('caio', 'c4'),
+      { type: 'SELECT_ATTRIBUTE', player: 'ana', attribute: 'forca' },
+      reveal('ana', 'c1'),
+    ]);
+    expect(() => applyAction(state, { type: 'WITHDRAW_CARD', player: 'ana' }, CONTEXT)).toThrow(GameRuleError);
+  });
+});
+
+describe('desistência', () => {
+  const forfeit = (state: GameState, player: string) => applyAction(state, { type: 'FORFEIT', player }, CONTEXT);
+
+  it('redistribui as cartas de quem desiste, uma a uma, a partir do jogador seguinte', () => {
+    const start = withHands({ ana: ['c1', 'c2', 'c6'], bia: ['c9'], caio: ['c4'] }, { forfeitRule: 'redistribute' }, 'caio');
+    const state = forfeit(start, 'ana');
+
+    expect(state.eliminatedPlayers).toEqual(['ana']);
+    expect(state.forfeitedPlayers).toEqual(['ana']);
+    expect(state.playerCards).toEqual({ ana: [], bia: ['c9', 'c1', 'c6'], caio: ['c4', 'c2'] });
+    expect(state.discardedCards).toEqual([]);
+  });
+
+  it('descarta as cartas de quem desiste com a regra discard', () => {
+    const start = withHands({ ana: ['c1', 'c2'], bia: ['c9'], caio: ['c4'] }, { forfeitRule: 'discard' }, 'caio');
+    const state = forfeit(start, 'ana');
+
+    expect(state.playerCards).toEqual({ ana: [], bia: ['c9'], caio: ['c4'] });
+    expect(state.discardedCards).toEqual(['c1', 'c2']);
+  });
+
+  it('passa a vez ao jogador seguinte quando quem desiste ia escolher o atributo', () => {
+    const start = withHands({ ana: ['c1'], bia: ['c9'], caio: ['c4'] }, {}, 'ana');
+    const state = forfeit(start, 'ana');
+
+    expect(state.currentPlayer).toBe('bia');
+    expect(state.gamePhase).toBe('selecting');
+  });
+
+  it('tira da mesa a carta ainda não revelada de quem desiste', () => {
+    const start = withHands({ ana: ['c1'], bia: ['c9'], caio: ['c4'] }, {}, 'caio');
+    const played = run(start, [{
+      type: 'COMMIT_CARD',
+      player: 'ana',
+      commitment: createCardCommitment('ana', 'c1', 'sal-ana'),
+    }]);
+    const state = forfeit(played, 'ana');
+
+    expect(state.cardCommitments).toEqual({});
+  });
+
+  it('encerra a partida quando resta um jogador', () => {
+    const start = withHands({ ana: ['c1', 'c2'], bia: ['c9'] }, { forfeitRule: 'discard' });
+    const state = forfeit(start, 'ana');
+
+    expect(state.gamePhase).toBe('finished');
+    expect(state.endReason).toBe('last-standing');
+    expect(state.gameWinner).toBe('bia');
+  });
+});
+
+describe('modo em duplas', () => {
+  const TEAMS: { [player: string]: TeamId } = { ana: 'blue', bia: 'red', caio: 'blue', davi: 'red' };
+
+  const teamGame = (hands: { [player: string]: string[] }, settings: Partial<GameSettings> = {}): GameState => ({
+    ...withHands(hands, { teamMode: true, ...settings }),
+    teams: TEAMS,
+  });
+
+  it('dá a vitória ao time que elimina os dois adversários', () => {
+    const start = teamGame({ ana: ['c10', 'c3'], bia: ['c1'], caio: ['c9', 'c4'], davi: ['c2'] });
+    const state = run(start, roundActions('ana', { ana: 'c10', bia: 'c1', caio: 'c9', davi: 'c2' }));
+
+    expect(state.eliminatedPlayers).toEqual(['bia', 'davi']);
+    expect(state.endReason).toBe('last-standing');
+    expect(state.winningTeam).toBe('blue');
+  });
+
+  it('continua a partida enquanto cada time tiver alguém ativo', () => {
+    const start = teamGame({ ana: ['c10', 'c3'], bia: ['c1'], caio: ['c2'], davi: ['c9', 'c4'] });
+    const state = run(start, roundActions('ana', { ana: 'c10', bia: 'c1', caio: 'c2', davi: 'c9' }));
+
+    expect(state.eliminatedPlayers).toEqual(['bia', 'caio']);
+    expect(state.endReason).toBeUndefined();
+    expect(state.gamePhase).toBe('animating-win');
+  });
+
+  it('divide as cartas ganhas com o parceiro quando shareSpoils está ativo', () => {
+    const hands = { ana: ['c10', 'c3'], bia: ['c1', 'c4'], caio: ['c2', 'c5'], davi: ['c6', 'c7'] };
+    const played = { ana: 'c10', bia: 'c1', caio: 'c2', davi: 'c6' };
+
+    const shared = run(teamGame(hands, { shareSpoils: true }), roundActions('ana', played));
+    expect(shared.playerCards.ana).toHaveLength(3);
+    expect(shared.playerCards.caio).toHaveLength(3);
+    expect([...shared.playerCards.ana, ...shared.playerCards.caio].sort()).toEqual(
+      ['c1', 'c10', 'c2', 'c3', 'c5', 'c6'].sort()
+    );
+
+    const alone = run(teamGame(hands), roundActions('ana', played));
+    expect(alone.playerCards.ana).toHaveLength(5);
+    expect(alone.playerCards.caio).toEqual(['c5']);
+  });
+});
+
+describe('condições de término e classificação', () => {
+  it('encerra por número de rodadas e classifica por cartas', () => {
+    const start = withHands(
+      { ana: ['c1', 'c2'], bia: ['c9', 'c3'], caio: ['c4', 'c5'] },
+      { endCondition: 'max-rounds', maxRounds: 1 }
+    );
+    let state = run(start, roundActions('ana', { ana: 'c1', bia: 'c9', caio: 'c4' }));
+    expect(state.endReason).toBe('max-rounds');
+    expect(state.gameWinner).toBe('bia');
+    expect(state.ranking?.map(entry => [entry.player, entry.position])).toEqual([
+      ['bia', 1],
+      ['ana', 2],
+      ['caio', 2],
+    ]);
+
+    state = run(state, [{ type: 'NEXT_ROUND' }]);
+    expect(state.gamePhase).toBe('finished');
+  });
+
+  it('encerra quando alguém atinge a meta de cartas', () => {
+    const start = withHands(
+      { ana: ['c1', 'c2'], bia: ['c9', 'c3'] },
+      { endCondition: 'card-target', targetCardCount: 3 }
+    );
+    const state = run(start, roundActions('ana', { ana: 'c1', bia: 'c9' }));
+    expect(state.endReason).toBe('card-target');
+    expect(state.gameWinner).toBe('bia');
+  });
+
+  it('encerra pelo tempo contado a partir do início da partida', () => {
+    const start = withHands(
+      { ana: ['c1', 'c2'], bia: ['c9', 'c3'] },
+      { endCondition: 'time-limit', timeLimitMinutes: 10 }
+    );
+    const early = run(start, roundActions('ana', { ana: 'c1', bia: 'c9' }, '2024-01-01T00:05:00.000Z'));
+    expect(early.endReason).toBeUndefined();
+
+    const late = run(start, roundActions('ana', { ana: 'c1', bia: 'c9' }, '2024-01-01T00:10:00.000Z'));
+    expect(late.endReason).toBe('time-limit');
+  });
+
+  it('elimina quem fica sem cartas e dá a vitória ao último jogador', () => {
+    const start = withHands({ ana: ['c1'], bia: ['c9', 'c3'] });
+    const state = run(start, roundActions('ana', { ana: 'c1', bia: 'c9' }));
+    expect(state.eliminatedPlayers).toEqual(['ana']);
+    expect(state.endReason).toBe('last-standing');
+    expect(state.gameWinner).toBe('bia');
+    expect(state.ranking?.find(entry => entry.player === 'ana')?.eliminatedInRound).toBe(1);
+  });
+
+  it('deixa os eliminados atrás, com quem caiu por último à frente', () => {
+    const ranking = buildRanking({
+      ...withHands({ ana: [], bia: ['c1'], caio: [], davi: ['c2', 'c3'] }),
+      currentRound: 5,
+      eliminatedPlayers: ['ana', 'caio'],
+      eliminationRounds: { ana: 2, caio: 4 },
+    });
+    expect(ranking.map(entry => entry.player)).toEqual(['davi', 'bia', 'caio', 'ana']);
+    expect(ranking.map(entry => entry.position)).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,71 @@
+// __tests__/gameUtils.test.ts
+
+import { Card, TeamId } from '../src/types';
+import { areTeamsValid, arrangeTeamSeats, compareCards } from '../src/utils/gameUtils';
+
+const card = (id: string, forca: number, extra: Partial<Card> = {}): Card => ({
+  id,
+  name: id,
+  attributes: { forca },
+  ...extra,
+});
+
+const CARDS: Card[] = [
+  card('super', 50, { isSuperTrunfo: true }),
+  card('a1', 10, { code: 'A1' }),
+  card('b1', 90, { code: 'B1' }),
+  card('c1', 90, { code: 'C1' }),
+];
+
+describe('compareCards', () => {
+  it('dá a rodada ao Super Trunfo quando não há carta do grupo A', () => {
+    const result = compareCards({ ana: 'super', bia: 'b1' }, 'forca', CARDS);
+    expect(result.winner).toBe('ana');
+  });
+
+  it('faz o Super Trunfo perder para uma carta do grupo A', () => {
+    const result = compareCards({ ana: 'super', bia: 'a1' }, 'forca', CARDS);
+    expect(result.winner).toBe('bia');
+    expect(result.tiedPlayers).toEqual([]);
+  });
+
+  it('decide entre as demais cartas quando o Super Trunfo enfrenta o grupo A', () => {
+    const result = compareCards({ ana: 'super', bia: 'a1', caio: 'b1' }, 'forca', CARDS);
+    expect(result.winner).toBe('caio');
+    expect(result.results.ana).toEqual({ cardId: 'super', value: 50 });
+  });
+
+  it('devolve os empatados quando o melhor valor se repete', () => {
+    const result = compareCards({ bia: 'b1', caio: 'c1', davi: 'a1' }, 'forca', CARDS);
+    expect(result.winner).toBeNull();
+    expect(result.tiedPlayers).toEqual(['bia', 'caio']);
+  });
+
+  it('respeita atributos em que o menor valor vence', () => {
+    const definitions = { forca: { label: 'Força', direction: 'lower-wins' as const } };
+    const result = compareCards({ bia: 'b1', davi: 'a1' }, 'forca', CARDS, definitions);
+    expect(result.winner).toBe('davi');
+  });
+});
+
+describe('duplas', () => {
+  const TEAMS: { [player: string]: TeamId } = { ana: 'blue', bia: 'blue', caio: 'red', davi: 'red' };
+
+  it('aceita só dois times de dois jogadores', () => {
+    expect(areTeamsValid(TEAMS)).toBe(true);
+    expect(areTeamsValid({ ...TEAMS, bia: 'red' })).toBe(false);
+    expect(areTeamsValid({ ana: 'blue', caio: 'red' })).toBe(false);
+    expect(areTeamsValid({ ...TEAMS, edu: 'blue' })).toBe(false);
+  });
+
+  it('intercala os assentos para que os parceiros fiquem frente a frente', () => {
+    const seats = arrangeTeamSeats(['ana', 'bia', 'caio', 'davi'], TEAMS);
+    expect(seats).toEqual(['ana', 'caio', 'bia', 'davi']);
+    expect(TEAMS[seats[0]]).toBe(TEAMS[seats[2]]);
+    expect(TEAMS[seats[1]]).toBe(TEAMS[seats[3]]);
+  });
+
+  it('mantém nos últimos assentos quem não tem time', () => {
+    expect(arrangeTeamSeats(['edu', 'ana', 'caio'], TEAMS)).toEqual(['ana', 'caio', 'edu']);
+  });
+});
@@ -0,0 +1,53 @@
+// __tests__/helpers/clients.ts
+
+import type { MemoryBackend, MemoryStore } from '../../src/services/backend';
+
+type Backend = typeof import('../../src/services/backend');
+
+export interface TestClient {
+  backend: MemoryBackend;
+  rooms: typeof import('../../src/services/firebaseService');
+  games: typeof import('../../src/services/gameService');
+  bots: typeof import('../../src/services/botService');
+  presence: typeof import('../../src/services/presenceService');
+  cleanup: typeof import('../../src/services/cleanupService');
+}
+
+/**
+ * Um "aparelho" ligado ao banco em memória: carrega a própria cópia dos
+ * serviços (com o próprio backend e as próprias cartas não reveladas), como
+ * se fosse outro app rodando ao mesmo tempo
+ */
+export const connectClient = (store: MemoryStore, clientId: string): TestClient => {
+  let client: TestClient | undefined;
+  jest.isolateModules(() => {
+    const backendModule: Backend = require('../../src/services/backend');
+    const backend = store.connect(clientId);
+    backendModule.setBackend(backend);
+    client = {
+      backend,
+      rooms: require('../../src/services/firebaseService'),
+      games: require('../../src/services/gameService'),
+      bots: require('../../src/services/botService'),
+      presence: require('../../src/services/presenceService'),
+      cleanup: require('../../src/services/cleanupService'),
+    };
+  });
+  return client as TestClient;
+};
+
+/**
+ * Espera os listeners e transações pendentes serem entregues
+ */
+export const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 5));
+
+/**
+ * Espera até a condição valer: as jogadas dos convidados passam pelo
+ * anfitrião antes de chegar à partida. Conta tentativas em vez de tempo
+ * porque os testes costumam congelar o Date.now.
+ */
+export const waitUntil = async (condition: () => boolean, attempts: number = 200): Promise<void> => {
+  for (let i = 0; i < attempts && !condition(); i++) {
+    await flush();
+  }
+};
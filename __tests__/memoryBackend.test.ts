@@ -0,0 +1,308 @@
+/**
+ * @jest-environment node
+ */
+// __tests__/memoryBackend.test.ts
+
+import { createMemoryStore } from '../src/services/backend';
+import { getDeckCards } from '../src/data/decks';
+import { GameState } from '../src/types';
+import { connectClient, flush, waitUntil } from './helpers/clients';
+
+const PROFILE = (id: string) => ({ id, nickname: id.toUpperCase(), avatar: '🙂' });
+
+describe('banco em memória com vários clientes', () => {
+  it('dá a cada cliente o próprio ID sobre o mesmo banco', async () => {
+    const store = createMemoryStore();
+    const first = store.connect('uid-1');
+    const second = store.connect('uid-2');
+
+    await first.set('rooms/a/code', 'ABC123');
+    expect(await second.get('rooms/a/code')).toBe('ABC123');
+    expect(await first.getClientId()).toBe('uid-1');
+    expect(await second.getClientId()).toBe('uid-2');
+  });
+
+  it('avisa os listeners de um cliente quando outro escreve', async () => {
+    const store = createMemoryStore({ counter: 1 });
+    const writer = store.connect('uid-1');
+    const reader = store.connect('uid-2');
+    const seen: unknown[] = [];
+
+    const unsubscribe = reader.subscribe<number>('counter', value => seen.push(value));
+    await flush();
+    await writer.set('counter', 2);
+    await flush();
+    unsubscribe();
+
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it('refaz a transação quando outro cliente alterou o valor antes da gravação', async () => {
+    const store = createMemoryStore({ counter: 0 });
+    const clients = ['uid-1', 'uid-2', 'uid-3'].map(id => store.connect(id));
+    const attempts: number[] = [];
+
+    await Promise.all(clients.map((client, index) => client.transaction<number>('counter', current => {
+      attempts.push(index);
+      return (current || 0) + 1;
+    })));
+
+    expect(store.read('counter')).toBe(3);
+    // Sem cache a primeira tentativa recebe null e todas as seguintes são refeitas
+    expect(attempts.length).toBeGreaterThan(clients.length);
+  });
+
+  it('usa o valor já recebido pelos listeners como primeira tentativa', async () => {
+    const store = createMemoryStore({ counter: 5 });
+    const client = store.connect('uid-1');
+    const unsubscribe = client.subscribe('counter', () => {});
+    const received: (number | null)[] = [];
+
+    await client.transaction<number>('counter', current => {
+      received.push(current);
+      return (current || 0) + 1;
+    });
+    unsubscribe();
+
+    expect(received).toEqual([5]);
+    expect(store.read('counter')).toBe(6);
+  });
+
+  it('não grava quando o updater cancela a transação', async () => {
+    const store = createMemoryStore({ counter: 5 });
+    const client = store.connect('uid-1');
+
+    const result = await client.transaction<number>('counter', () => undefined);
+    expect(result.committed).toBe(false);
+    expect(store.read('counter')).toBe(5);
+  });
+
+  it('aplica só os onDisconnect do cliente que caiu', async () => {
+    const store = createMemoryStore();
+    const first = store.connect('uid-1');
+    const second = store.connect('uid-2');
+    await first.onDisconnectUpdate('players/ana', { connection: 'offline' });
+    await second.onDisconnectUpdate('players/bia', { connection: 'offline' });
+
+    first.setConnected(false);
+    expect(store.read('players')).toEqual({ ana: { connection: 'offline' } });
+  });
+});
+
+describe('serviços com vários aparelhos', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('registra cada aparelho que entra na sala com o próprio uid', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+
+    expect(store.read(`rooms/${room.id}/members`)).toEqual({ 'uid-host': 'ana', 'uid-guest': 'bia' });
+  });
+
+  it('passa a sala a quem um bot substituiu quando o anfitrião sai, e nunca a um bot', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await host.bots.addBotToRoom(room.id);
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    await host.backend.update({
+      [`rooms/${room.id}/players/bia/isBot`]: true,
+      [`rooms/${room.id}/players/bia/replacedByBot`]: true,
+    });
+    await host.rooms.leaveRoom(room.id, 'ana');
+
+    expect(store.read(`rooms/${room.id}/hostId`)).toBe('bia');
+    expect(store.read(`rooms/${room.id}/players/bia/isHost`)).toBe(true);
+  });
+
+  it('apaga a sala quando o anfitrião sai e só ficam bots', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await host.bots.addBotToRoom(room.id);
+    await host.rooms.leaveRoom(room.id, 'ana');
+
+    expect(store.read(`rooms/${room.id}`)).toBeNull();
+  });
+
+  it('reabre a sala para a revanche quando todos votam, mantendo o placar da série', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    await host.games.startGame(room.id, ['ana', 'bia'], getDeckCards('paises'), 1);
+    const stopServing = host.games.serveGameMoves(room.id);
+    await guest.games.forfeitGame(room.id, 'bia');
+    stopServing();
+    expect(store.read(`rooms/${room.id}/status`)).toBe('finished');
+
+    expect(await guest.rooms.voteRematch(room.id, 'bia')).toBe(false);
+    expect(store.read(`rooms/${room.id}/status`)).toBe('finished');
+    expect(await host.rooms.voteRematch(room.id, 'ana')).toBe(true);
+
+    expect(store.read(`rooms/${room.id}/status`)).toBe('waiting');
+    expect(store.read(`rooms/${room.id}/rematchVotes`)).toBeNull();
+    expect(store.read(`rooms/${room.id}/players/bia/status`)).toBe('active');
+    expect(store.read(`rooms/${room.id}/seriesScores`)).toEqual({ ana: 1 });
+    expect(store.read(`games/${room.id}`)).toBeNull();
+    expect(store.read(`gameSecrets/${room.id}`)).toBeNull();
+
+    // A próxima partida é distribuída do zero
+    await host.games.startGame(room.id, ['ana', 'bia'], getDeckCards('paises'), 2);
+    expect(store.read(`games/${room.id}/currentRound`)).toBe(1);
+    expect(store.read(`games/${room.id}/forfeitedPlayers`)).toBeNull();
+  });
+
+  it('revela depois de reiniciar o app a carta guardada antes do fechamento', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    await host.games.startGame(room.id, ['ana', 'bia'], getDeckCards('paises'), 1);
+    const stopServing = host.games.serveGameMoves(room.id);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000);
+    await host.games.advanceOverduePhase(room.id);
+
+    // Com a semente 1 quem começa é a Bia: ela joga e escolhe o atributo antes de o app ser fechado
+    const card = (store.read<string[]>(`hands/${room.id}/bia`) as string[])[0];
+    await guest.games.playCard(room.id, 'bia', card);
+    await guest.games.selectAttributeAndProcess(room.id, 'bia', 'População');
+    const saved = guest.games.getPendingReveals(room.id);
+    expect(saved.bia.cardId).toBe(card);
+
+    // O app reiniciado começa sem nada na memória e só aceita a carta do compromisso publicado
+    const restarted = connectClient(store, 'uid-guest');
+    expect(restarted.games.getPendingCard(room.id, 'bia')).toBeUndefined();
+    const otherCard = (store.read<string[]>(`hands/${room.id}/bia`) as string[])[1];
+    expect(await restarted.games.restorePendingReveal(room.id, 'bia', { ...saved.bia, cardId: otherCard })).toBe(false);
+    expect(await restarted.games.restorePendingReveal(room.id, 'bia', saved.bia)).toBe(true);
+    expect(restarted.games.getPendingCard(room.id, 'bia')).toBe(card);
+
+    // Quando a Ana joga a rodada passa à revelação e a carta restaurada é revelada
+    const hostCard = (store.read<string[]>(`hands/${room.id}/ana`) as string[])[0];
+    await host.games.playCard(room.id, 'ana', hostCard);
+    expect(store.read(`games/${room.id}/gamePhase`)).toBe('revealing');
+    await restarted.games.revealPendingCards(room.id, store.read<GameState>(`games/${room.id}`));
+    await waitUntil(() => store.read(`games/${room.id}/currentRoundCards/bia`) !== null);
+    stopServing();
+
+    expect(store.read(`games/${room.id}/currentRoundCards`)).toEqual({ ana: hostCard, bia: card });
+    expect(restarted.games.getPendingCard(room.id, 'bia')).toBeUndefined();
+  });
+
+  it('mantém as cartas não reveladas só no aparelho de quem jogou', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    const state = await host.games.startGame(room.id, ['ana', 'bia'], getDeckCards('paises'), 1);
+    const stopServing = host.games.serveGameMoves(room.id);
+    // Passa o prazo do sorteio de quem começa
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000);
+    await host.games.advanceOverduePhase(room.id);
+
+    const card = state.playerCards.bia[0];
+    await guest.games.playCard(room.id, 'bia', card);
+    stopServing();
+
+    expect(guest.games.getPendingCard(room.id, 'bia')).toBe(card);
+    expect(host.games.getPendingCard(room.id, 'bia')).toBeUndefined();
+    expect(store.read(`games/${room.id}/currentRoundCards`)).toBeNull();
+  });
+
+  it('deixa as mãos e a semente fora da partida pública', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    const state = await host.games.startGame(room.id, ['ana', 'bia'], getDeckCards('paises'), 1);
+
+    const published = store.read<GameState>(`games/${room.id}`) as GameState;
+    expect(published.playerCards).toBeUndefined();
+    expect(published.seed).toBeUndefined();
+    expect(published.cardCounts).toEqual({ ana: state.playerCards.ana.length, bia: state.playerCards.bia.length });
+    expect(store.read(`hands/${room.id}/bia`)).toEqual(state.playerCards.bia);
+    expect(store.read(`gameSecrets/${room.id}/seed`)).toBe(state.seed);
+
+    // O convidado só recebe a própria mão
+    let view: GameState | null = null;
+    const stop = guest.games.listenToGameState(room.id, game => { view = game; }, undefined, 'bia');
+    await flush();
+    stop();
+    expect(Object.keys(view!.playerCards)).toEqual(['bia']);
+  });
+
+  it('acrescenta cada ação ao histórico público, com a distribuição sem a semente', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    await host.games.startGame(room.id, ['ana', 'bia'], getDeckCards('paises'), 1);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000);
+    await host.games.advanceOverduePhase(room.id);
+
+    const events = await guest.games.getGameEvents(room.id);
+    expect(events.map(event => event.seq)).toEqual([0, 1]);
+    expect(events.map(event => event.action.type)).toEqual(['DEAL', 'START_SELECTING']);
+    expect(events[0].action).not.toHaveProperty('seed');
+
+    // Durante a partida só o anfitrião, que guarda a semente, consegue refazê-la
+    expect(await host.games.verifyGameEvents(room.id)).toBe(true);
+    expect(await guest.games.verifyGameEvents(room.id)).toBe(false);
+
+    // No fim a semente é publicada e qualquer um da sala confere a partida
+    const stopServing = host.games.serveGameMoves(room.id);
+    await guest.games.forfeitGame(room.id, 'bia');
+    stopServing();
+    expect(store.read(`games/${room.id}/seed`)).toBe(1);
+    expect(await guest.games.verifyGameEvents(room.id)).toBe(true);
+  });
+
+  it('deixa só o anfitrião aplicar ações e devolve as recusas dele ao convidado', async () => {
+    const store = createMemoryStore();
+    const host = connectClient(store, 'uid-host');
+    const guest = connectClient(store, 'uid-guest');
+
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    await host.games.startGame(room.id, ['ana', 'bia'], getDeckCards('paises'), 1);
+    const stopServing = host.games.serveGameMoves(room.id);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000);
+
+    await expect(guest.games.advanceOverduePhase(room.id)).rejects.toMatchObject({ code: 'NOT_HOST' });
+    await host.games.advanceOverduePhase(room.id);
+
+    // Com a semente 1 quem começa é a Bia; a segunda escolha dela vai ao anfitrião e volta recusada
+    expect(store.read(`games/${room.id}/currentPlayer`)).toBe('bia');
+    const hand = store.read<string[]>(`hands/${room.id}/bia`) as string[];
+    await guest.games.playCard(room.id, 'bia', hand[0]);
+    await guest.games.selectAttributeAndProcess(room.id, 'bia', 'População');
+    await expect(guest.games.selectAttributeAndProcess(room.id, 'bia', 'Área'))
+      .rejects.toMatchObject({ code: 'ATTRIBUTE_ALREADY_SELECTED' });
+    stopServing();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+// __tests__/presence.test.ts
+
+import { createMemoryStore, MemoryStore } from '../src/services/backend';
+import { getDeckCards } from '../src/data/decks';
+import { GameSettings, Player } from '../src/types';
+import { HOST_GRACE_MS, PRESENCE_GRACE_MS } from '../src/services/presenceService';
+import { connectClient, flush, TestClient } from './helpers/clients';
+
+const NOW = Date.parse('2024-06-01T12:00:00.000Z');
+
+const PROFILE = (id: string) => ({ id, nickname: id.toUpperCase(), avatar: '🙂' });
+
+describe('prazo de reconexão', () => {
+  let store: MemoryStore;
+  let host: TestClient;
+  let guest: TestClient;
+  let roomId: string;
+  const stops: (() => void)[] = [];
+
+  /**
+   * Sala da Ana (anfitriã) com a Bia, as duas com a presença publicada
+   */
+  const openRoom = async (settings: Partial<GameSettings> = {}) => {
+    store = createMemoryStore();
+    host = connectClient(store, 'uid-host');
+    guest = connectClient(store, 'uid-guest');
+    const room = await host.rooms.createRoom(PROFILE('ana'), 'paises', 'Países');
+    await guest.rooms.joinRoom(room.code, PROFILE('bia'));
+    if (Object.keys(settings).length > 0) {
+      await host.rooms.updateRoomSettings(room.id, settings);
+    }
+    stops.push(host.presence.trackPresence(room.id, 'ana'), guest.presence.trackPresence(room.id, 'bia'));
+    await flush();
+    roomId = room.id;
+  };
+
+  const player = (id: string) => store.read<Player>(`rooms/${roomId}/players/${id}`);
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stops.splice(0).forEach(stop => stop());
+    jest.restoreAllMocks();
+  });
+
+  it('marca quem caiu como offline com o horário do servidor', async () => {
+    await openRoom();
+
+    expect(player('bia')?.connection).toBe('online');
+    guest.backend.setConnected(false);
+
+    expect(player('bia')?.connection).toBe('offline');
+    expect(player('bia')?.disconnectedAt).toBe(NOW);
+  });
+
+  it('só tira da sala de espera quem não voltou dentro do prazo', async () => {
+    await openRoom();
+    guest.backend.setConnected(false);
+
+    await host.presence.enforcePresence(roomId, NOW + PRESENCE_GRACE_MS - 1);
+    expect(player('bia')).not.toBeNull();
+
+    await host.presence.enforcePresence(roomId, NOW + PRESENCE_GRACE_MS);
+    expect(player('bia')).toBeNull();
+    expect(store.read(`rooms/${roomId}/members/uid-guest`)).toBeNull();
+  });
+
+  it('mantém na sala quem voltou dentro do prazo', async () => {
+    await openRoom();
+    guest.backend.setConnected(false);
+    guest.backend.setConnected(true);
+    await flush();
+
+    expect(player('bia')?.connection).toBe('online');
+    expect(player('bia')?.disconnectedAt).toBeUndefined();
+
+    await host.presence.enforcePresence(roomId, NOW + PRESENCE_GRACE_MS);
+    expect(player('bia')).not.toBeNull();
+  });
+
+  it('põe um bot no lugar de quem caiu durante a partida e devolve o lugar quando ele volta', async () => {
+    await openRoom({ disconnectRule: 'bot' });
+    await host.games.startGame(roomId, ['ana', 'bia'], getDeckCards('paises'), 1);
+    guest.backend.setConnected(false);
+
+    await host.presence.enforcePresence(roomId, NOW + PRESENCE_GRACE_MS);
+    expect(player('bia')).toMatchObject({ isBot: true, replacedByBot: true });
+    expect(store.read(`games/${roomId}/forfeitedPlayers`)).toBeNull();
+
+    guest.backend.setConnected(true);
+    await flush();
+    expect(player('bia')?.connection).toBe('online');
+    expect(player('bia')?.isBot).toBeUndefined();
+    expect(player('bia')?.replacedByBot).toBeUndefined();
+  });
+
+  it('faz desistir quem caiu durante a partida quando a regra é forfeit', async () => {
+    await openRoom({ disconnectRule: 'forfeit' });
+    await host.games.startGame(roomId, ['ana', 'bia'], getDeckCards('paises'), 1);
+    guest.backend.setConnected(false);
+
+    await host.presence.enforcePresence(roomId, NOW + PRESENCE_GRACE_MS);
+
+    expect(player('bia')?.isBot).toBeUndefined();
+    expect(store.read(`games/${roomId}/forfeitedPlayers`)).toEqual(['bia']);
+    expect(store.read(`games/${roomId}/gameWinner`)).toBe('ana');
+  });
+
+  it('passa a sala adiante quando o anfitrião não volta em HOST_GRACE_MS', async () => {
+    await openRoom();
+    host.backend.setConnected(false);
+
+    await guest.presence.enforcePresence(roomId, NOW + HOST_GRACE_MS - 1);
+    expect(store.read(`rooms/${roomId}/hostId`)).toBe('ana');
+
+    await guest.presence.enforcePresence(roomId, NOW + HOST_GRACE_MS);
+    expect(store.read(`rooms/${roomId}/hostId`)).toBe('bia');
+    expect(player('bia')?.isHost).toBe(true);
+    expect(player('ana')?.isHost).toBe(false);
+    // A anfitriã anterior continua na sala até o fim do prazo de reconexão
+    expect(player('ana')?.connection).toBe('offline');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+// __tests__/publicRooms.test.ts
+
+import { createMemoryStore } from '../src/services/backend';
+import { Room } from '../src/types';
+import { getRoomListingKey } from '../src/utils/roomUtils';
+import { connectClient, flush } from './helpers/clients';
+
+const NOW = Date.parse('2024-06-01T12:00:00.000Z');
+
+/**
+ * Sala aberta de um jogador, já com a chave de listagem
+ */
+const openRoom = (id: string, minutesAgo: number): Room => {
+  const at = NOW - minutesAgo * 60 * 1000;
+  const room: Room = {
+    schemaVersion: 2,
+    id,
+    code: id.toUpperCase(),
+    hostId: `host-${id}`,
+    deckId: 'paises',
+    deckName: 'Países',
+    players: {
+      [`host-${id}`]: {
+        id: `host-${id}`,
+        nickname: 'Ana',
+        isHost: true,
+        joinedAt: new Date(at).toISOString(),
+        isReady: true,
+        status: 'active',
+      },
+    },
+    status: 'waiting',
+    isPrivate: false,
+    maxPlayers: 4,
+    createdAt: new Date(at).toISOString(),
+    lastActivity: at,
+  };
+  return { ...room, listing: getRoomListingKey(room) as string };
+};
+
+describe('lista de salas públicas', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('oferece mais salas quando a página veio cheia, mesmo sem as abandonadas', async () => {
+    // A sala mais nova vem primeiro na lista, mas quem a criou caiu há mais tempo que o limite
+    const stale = openRoom('nova', 1);
+    stale.players['host-nova'] = { ...stale.players['host-nova'], connection: 'offline', disconnectedAt: NOW - 10 * 60 * 1000 };
+    const store = createMemoryStore({
+      rooms: { nova: stale, media: openRoom('media', 5), velha: openRoom('velha', 10) },
+    });
+    const client = connectClient(store, 'uid-1');
+    let page: { rooms: Room[]; hasMore: boolean } | null = null;
+
+    const stop = client.rooms.listenToPublicRooms('paises', 2, (rooms, hasMore) => { page = { rooms, hasMore }; });
+    await flush();
+    stop();
+
+    expect(page!.rooms.map(room => room.id)).toEqual(['media']);
+    expect(page!.hasMore).toBe(true);
+  });
+
+  it('não oferece mais salas quando a página não encheu', async () => {
+    const store = createMemoryStore({ rooms: { media: openRoom('media', 5) } });
+    const client = connectClient(store, 'uid-1');
+    let hasMore: boolean | null = null;
+
+    const stop = client.rooms.listenToPublicRooms('paises', 2, (_rooms, more) => { hasMore = more; });
+    await flush();
+    stop();
+
+    expect(hasMore).toBe(false);
+  });
+
+  it('grava a chave de listagem das salas abertas da versão 1 durante a limpeza', async () => {
+    const v1Room = {
+      code: 'OLD123',
+      hostNickname: 'Ana',
+      deckId: 'paises',
+      deckName: 'Países',
+      players: { Ana: { nickname: 'Ana', isHost: true, joinedAt: '2024-06-01T11:55:00.000Z', isReady: true, status: 'active' } },
+      status: 'waiting',
+      isPrivate: false,
+      maxPlayers: 4,
+      createdAt: '2024-06-01T11:55:00.000Z',
+      lastActivity: '2024-06-01T11:58:00.000Z',
+    };
+    const store = createMemoryStore({ rooms: { antiga: v1Room } });
+    const client = connectClient(store, 'uid-1');
+
+    const removed = await client.cleanup.cleanupAbandonedRooms('paises', NOW);
+
+    expect(removed).toEqual([]);
+    expect(store.read('rooms/antiga/listing')).toMatch(/^paises\|03\|/);
+    expect(store.read('rooms/antiga/id')).toBe('antiga');
+
+    let rooms: Room[] = [];
+    const stop = client.rooms.listenToPublicRooms('paises', 10, found => { rooms = found; });
+    await flush();
+    stop();
+    expect(rooms.map(room => room.code)).toEqual(['OLD123']);
+  });
+});
@@ -0,0 +1,48 @@
+// __tests__/schema.test.ts
+
+import { GAME_SCHEMA_VERSION, isSchemaError, parseGameState } from '../src/utils/schema';
+
+// Partida como a versão 1 gravava: sem schemaVersion, IDs iguais aos apelidos e sem compromissos
+const V1_GAME = {
+  currentRound: 3,
+  currentPlayer: 'Ana',
+  playerCards: { Ana: ['c1', 'c2'], Bia: ['c3'] },
+  currentRoundCards: {},
+  selectedAttribute: null,
+  roundWinner: null,
+  gameWinner: null,
+  roundHistory: [],
+  lastActivity: '2024-01-01T00:00:00.000Z',
+};
+
+const parseError = (value: unknown) => {
+  try {
+    parseGameState(value);
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe('migração de partidas', () => {
+  it.each(['spinning', 'selecting', 'revealing', 'comparing-on-table'])(
+    'recusa partidas da versão 1 paradas na fase %s',
+    gamePhase => {
+      const error = parseError({ ...V1_GAME, gamePhase });
+      expect(isSchemaError(error, 'OLDER_VERSION')).toBe(true);
+    }
+  );
+
+  it('atualiza partidas encerradas da versão 1', () => {
+    const game = parseGameState({ ...V1_GAME, gamePhase: 'finished', gameWinner: 'Ana' });
+
+    expect(game.schemaVersion).toBe(GAME_SCHEMA_VERSION);
+    expect(game.playerNames).toEqual({ Ana: 'Ana', Bia: 'Bia' });
+    expect(game.lastActivity).toBeUndefined();
+  });
+
+  it('recusa partidas gravadas por uma versão mais nova', () => {
+    const error = parseError({ ...V1_GAME, gamePhase: 'selecting', schemaVersion: GAME_SCHEMA_VERSION + 1 });
+    expect(isSchemaError(error, 'NEWER_VERSION')).toBe(true);
+  });
+});
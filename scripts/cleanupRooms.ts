@@ -0,0 +1,64 @@
+// scripts/cleanupRooms.ts
+//
+// Limpeza manual das salas abandonadas, apontada para o emulador do Realtime Database.
+// Uso: npm run cleanup:rooms
+// Os endereços dos emuladores vêm de FIREBASE_DATABASE_EMULATOR_HOST (padrão 127.0.0.1:9000)
+// e FIREBASE_AUTH_EMULATOR_HOST (padrão 127.0.0.1:9099), como em firebase.json.
+// O script entra como um usuário anônimo comum: só apaga o que as regras deixam.
+
+import { initializeApp } from 'firebase/app';
+import { connectDatabaseEmulator, getDatabase, goOffline } from 'firebase/database';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { createFirebaseBackend, GameBackend, setBackend } from '../src/services/backend';
+import { cleanupAbandonedRooms } from '../src/services/cleanupService';
+
+const PROJECT_ID = 'trunfia-49fbc';
+// Sem emulador no ar o SDK tentaria reconectar para sempre
+const CONNECTION_TIMEOUT_MS = 10 * 1000;
+
+const waitForConnection = async (backend: GameBackend): Promise<void> => {
+  let stop = () => {};
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(
+        () => reject(new Error('Emulador do Realtime Database não respondeu')),
+        CONNECTION_TIMEOUT_MS
+      );
+      stop = backend.onConnectionChange(connected => {
+        if (!connected) return;
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+  } finally {
+    stop();
+  }
+};
+
+const main = async () => {
+  const [host, port] = (process.env.FIREBASE_DATABASE_EMULATOR_HOST || '127.0.0.1:9000').split(':');
+  const authHost = process.env.FIREBASE_AUTH_EMULATOR_HOST || '127.0.0.1:9099';
+  const app = initializeApp({
+    projectId: PROJECT_ID,
+    databaseURL: `https://${PROJECT_ID}-default-rtdb.firebaseio.com/`,
+  });
+  const database = getDatabase(app);
+  connectDatabaseEmulator(database, host, Number(port));
+  const auth = getAuth(app);
+  connectAuthEmulator(auth, `http://${authHost}`, { disableWarnings: true });
+  const backend = createFirebaseBackend(database, auth);
+  setBackend(backend);
+
+  try {
+    await waitForConnection(backend);
+    const removedRooms = await cleanupAbandonedRooms();
+    console.log(`Salas abandonadas removidas: ${removedRooms.length}`, removedRooms);
+  } finally {
+    goOffline(database);
+  }
+};
+
+main().catch(error => {
+  console.error('Erro na limpeza:', error.message || error);
+  process.exitCode = 1;
+});
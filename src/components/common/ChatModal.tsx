@@ -19,6 +19,7 @@ interface ChatModalProps {
   visible: boolean;
   onClose: () => void;
   roomId: string;
+  playerId: string;
   playerNickname: string;
 }
 
@@ -26,6 +27,7 @@ const ChatModal: React.FC<ChatModalProps> = ({
   visible,
   onClose,
   roomId,
+  playerId,
   playerNickname,
 }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -51,7 +53,7 @@ const ChatModal: React.FC<ChatModalProps> = ({
 
     setIsLoading(true);
     try {
-      await sendChatMessage(roomId, playerNickname, newMessage);
+      await sendChatMessage(roomId, playerId, playerNickname, newMessage);
       setNewMessage('');
     } catch (error) {
       console.error('Erro ao enviar mensagem:', error);
@@ -104,26 +106,26 @@ const ChatModal: React.FC<ChatModalProps> = ({
                 key={message.id}
                 style={[
                   styles.messageContainer,
-                  message.nickname === playerNickname ? styles.myMessage : styles.otherMessage,
+                  message.playerId === playerId ? styles.myMessage : styles.otherMessage,
                 ]}
               >
                 <View style={styles.messageHeader}>
                   <Text style={[
                       styles.messageNickname,
-                      message.nickname === playerNickname && styles.myNickname
+                      message.playerId === playerId && styles.myNickname
                     ]}>
                     {message.nickname}
                   </Text>
                   <Text style={[
                       styles.messageTime,
-                      message.nickname === playerNickname && styles.myTime
+                      message.playerId === playerId && styles.myTime
                     ]}>
                     {formatTime(message.timestamp)}
                   </Text>
                 </View>
                 <Text style={[
                     styles.messageText,
-                    message.nickname === playerNickname && styles.myMessageText
+                    message.playerId === playerId && styles.myMessageText
                 ]}>
                   {message.message}
                 </Text>
@@ -17,6 +17,9 @@ interface SalaItemProps {
 const SalaItem: React.FC<SalaItemProps> = ({ room, onJoin, isLoading = false }) => {
   const playerCount = getPlayerCount(room);
   const isFull = playerCount >= room.maxPlayers;
+  const onlineCount = Object.values(room.players || {}).filter(p => !p.isBot && p.connection !== 'offline').length;
+  const host = room.players?.[room.hostId];
+  const isHostOffline = host?.connection === 'offline';
 
   return (
     <TouchableOpacity
@@ -38,7 +41,10 @@ const SalaItem: React.FC<SalaItemProps> = ({ room, onJoin, isLoading = false })
 
       <View style={styles.info}>
         <Text style={styles.hostText}>
-          Host: {room.hostNickname}
+          Host: {host?.nickname}{isHostOffline && ' (offline)'}
+        </Text>
+        <Text style={styles.onlineText}>
+          🟢 {onlineCount} online
         </Text>
         <Text style={styles.deckText}>
           Baralho: {room.deckName}
@@ -128,6 +134,11 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 2,
   },
+  onlineText: {
+    fontSize: 12,
+    color: '#4CAF50',
+    marginBottom: 2,
+  },
   deckText: {
     fontSize: 12,
     color: '#666',
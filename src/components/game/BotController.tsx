@@ -3,24 +3,35 @@
 import React, { useEffect, useRef, useCallback } from 'react';
 import { GameState, Card, Player } from '../../types';
 import { executeBotAction, getBotPlayers } from '../../services/botService';
+import { getPendingCard, withdrawPlayerCard } from '../../services/gameService';
+import { hasCommittedCard } from '../../utils/gameEngine';
+import { isGameRuleError } from '../../utils/gameErrors';
 
 interface BotControllerProps {
   roomId: string;
   gameState: GameState | null;
   players: { [key: string]: Player } | null;
   allCards: Card[];
+  isController: boolean; // Só o anfitrião, que conhece as mãos dos bots, joga por eles
+  onBotPlayed?: () => void;
 }
 
+// Tempo para quem jogou pelo bot revelar a carta antes que ela seja retirada
+const BOT_REVEAL_TIMEOUT_MS = 10 * 1000;
+
 const BotController: React.FC<BotControllerProps> = ({
   roomId,
   gameState,
   players,
   allCards,
+  isController,
+  onBotPlayed,
 }) => {
   const processedActions = useRef<Set<string>>(new Set());
+  const committedCount = useRef(0);
 
   const handleBotActions = useCallback(async () => {
-    if (!gameState || !players || !allCards.length) {
+    if (!isController || !gameState || !players || !allCards.length) {
       return;
     }
 
@@ -30,8 +41,8 @@ const BotController: React.FC<BotControllerProps> = ({
     
     // Itera sobre cada bot para ver se ele precisa agir
     for (const bot of bots) {
-      const botName = bot.nickname;
-      const actionKey = `${botName}-${gameState.currentRound}-${gameState.gamePhase}`;
+      const botId = bot.id;
+      const actionKey = `${botId}-${gameState.currentRound}-${gameState.gamePhase}`;
 
       if (processedActions.current.has(actionKey)) {
         continue; // Ação já processada para este bot nesta fase/rodada
@@ -39,23 +50,25 @@ const BotController: React.FC<BotControllerProps> = ({
 
       // Um bot precisa agir se:
       // 1. A fase é 'selecting' e ele ainda não jogou.
-      // 2. A fase é 'revealing', é a vez dele e nenhum atributo foi escolhido ainda.
-      const needsToPlayCard = gameState.gamePhase === 'selecting' && !gameState.currentRoundCards[botName];
-      const needsToSelectAttribute = gameState.gamePhase === 'revealing' && gameState.currentPlayer === botName && !gameState.selectedAttribute;
+      // 2. É a vez dele e nenhum atributo foi escolhido ainda.
+      const needsToPlayCard = gameState.gamePhase === 'selecting' && !hasCommittedCard(gameState, botId);
+      const needsToSelectAttribute = gameState.gamePhase === 'selecting'
+        && gameState.currentPlayer === botId && !gameState.selectedAttribute;
 
       if (needsToPlayCard || needsToSelectAttribute) {
-        console.log(`🤖 Bot ${botName} precisa agir na fase ${gameState.gamePhase}`);
+        console.log(`🤖 Bot ${botId} precisa agir na fase ${gameState.gamePhase}`);
         processedActions.current.add(actionKey); // Marca como processado
         
         try {
-          await executeBotAction(roomId, botName, gameState, allCards);
+          await executeBotAction(roomId, botId, gameState, allCards);
+          onBotPlayed?.();
         } catch (error) {
-          console.error(`Erro na ação do bot ${botName}:`, error);
+          console.error(`Erro na ação do bot ${botId}:`, error);
           processedActions.current.delete(actionKey); // Permite tentar de novo em caso de erro
         }
       }
     }
-  }, [gameState, players, allCards, roomId]);
+  }, [isController, gameState, players, allCards, roomId, onBotPlayed]);
 
   // Limpa as ações processadas quando uma nova rodada começa
   useEffect(() => {
@@ -65,9 +78,41 @@ const BotController: React.FC<BotControllerProps> = ({
     if (gameState && gameState.currentRound !== currentRoundFromActions) {
         processedActions.current.clear();
     }
+    // Carta retirada depois de alguma revelação: as jogadas da rodada foram anuladas e os bots jogam de novo
+    const committed = Object.keys(gameState?.cardCommitments || {}).length;
+    if (committed < committedCount.current) {
+      processedActions.current.clear();
+    }
+    committedCount.current = committed;
     handleBotActions();
   }, [gameState, handleBotActions]);
 
+  // Carta de bot comprometida pelo anfitrião anterior (que caiu ou reiniciou)
+  // nunca seria revelada: depois do prazo ela é retirada e o bot joga de novo
+  useEffect(() => {
+    if (!isController || !players || gameState?.gamePhase !== 'revealing') return;
+    const round = gameState.currentRound;
+    const stuckBots = getBotPlayers(players)
+      .map(bot => bot.id)
+      .filter(botId => hasCommittedCard(gameState, botId)
+        && !gameState.currentRoundCards?.[botId]
+        && !getPendingCard(roomId, botId));
+    if (stuckBots.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      for (const botId of stuckBots) {
+        try {
+          await withdrawPlayerCard(roomId, botId);
+          processedActions.current.delete(`${botId}-${round}-selecting`);
+        } catch (error) {
+          // A carta foi revelada ou a rodada já seguiu adiante
+          if (!isGameRuleError(error)) console.error(`Erro ao retirar a carta do bot ${botId}:`, error);
+        }
+      }
+    }, BOT_REVEAL_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [isController, gameState, players, roomId]);
+
   return null; // Este componente não renderiza nada
 };
 
@@ -10,8 +10,8 @@ import {
   Dimensions,
   Image,
 } from 'react-native';
-import { Card } from '../../types';
-import { formatAttributeValue } from '../../utils/gameUtils';
+import { AttributeDefinitions, Card } from '../../types';
+import { formatAttributeValue, getAttributeLabel } from '../../utils/gameUtils';
 
 interface CartaProps {
   card: Card;
@@ -24,6 +24,7 @@ interface CartaProps {
   onSelect?: () => void;
   isAttributeSelectable?: boolean;
   onAttributeSelect?: (attribute: string) => void;
+  attributeDefinitions?: AttributeDefinitions;
 }
 
 const FALLBACK_WIDTH = Dimensions.get('window').width * 0.25;
@@ -39,6 +40,7 @@ const Carta: React.FC<CartaProps> = ({
   onSelect,
   isAttributeSelectable = false,
   onAttributeSelect,
+  attributeDefinitions,
 }) => {
   const animatedValue = useRef(new Animated.Value(0)).current;
 
@@ -69,6 +71,7 @@ const Carta: React.FC<CartaProps> = ({
   const dynamicStyles = {
     container: { width, height },
     cardNameText: { fontSize: width * 0.12 },
+    codeBadgeText: { fontSize: width * 0.08 },
     attributeName: { fontSize: width * 0.09 },
     attributeValue: { fontSize: width * 0.09 },
     attributeRow: { paddingVertical: height * 0.025 },
@@ -92,6 +95,15 @@ const Carta: React.FC<CartaProps> = ({
           ) : (
             <Text style={styles.imagePlaceholder}>{card.name}</Text>
           )}
+          {card.isSuperTrunfo ? (
+            <View style={[styles.codeBadge, styles.superTrunfoBadge]}>
+              <Text style={[styles.codeBadgeText, dynamicStyles.codeBadgeText]}>SUPER TRUNFO</Text>
+            </View>
+          ) : card.code ? (
+            <View style={styles.codeBadge}>
+              <Text style={[styles.codeBadgeText, dynamicStyles.codeBadgeText]}>{card.code}</Text>
+            </View>
+          ) : null}
           <View style={styles.cardNameContainer}>
             <Text style={[styles.cardNameText, dynamicStyles.cardNameText]}>{card.name}</Text>
           </View>
@@ -106,8 +118,8 @@ const Carta: React.FC<CartaProps> = ({
                   onPress={() => onAttributeSelect?.(key)}
                   disabled={!isAttributeSelectable}
               >
-                  <Text style={[styles.attributeName, dynamicStyles.attributeName]}>{key}:</Text>
-                  <Text style={[styles.attributeValue, dynamicStyles.attributeValue]}>{formatAttributeValue(key, value)}</Text>
+                  <Text style={[styles.attributeName, dynamicStyles.attributeName]}>{getAttributeLabel(key, attributeDefinitions)}:</Text>
+                  <Text style={[styles.attributeValue, dynamicStyles.attributeValue]}>{formatAttributeValue(key, value, attributeDefinitions)}</Text>
               </TouchableOpacity>
               ))}
           </View>
@@ -174,6 +186,22 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(0,0,0,0.5)',
     paddingVertical: 4,
   },
+  codeBadge: {
+    position: 'absolute',
+    top: 4,
+    left: 4,
+    backgroundColor: '#2c3e50',
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
+  superTrunfoBadge: {
+    backgroundColor: '#f1c40f',
+  },
+  codeBadgeText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
   cardNameText: {
     color: '#fff',
     textAlign: 'center',
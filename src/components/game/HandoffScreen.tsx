@@ -0,0 +1,88 @@
+// src/components/game/HandoffScreen.tsx
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Player } from '../../types';
+
+interface HandoffScreenProps {
+  player: Player;
+  isChooser: boolean; // Este jogador escolhe o atributo da rodada
+  round: number;
+  onReady: () => void;
+}
+
+/**
+ * Tela de passagem do aparelho no modo local: cobre a mesa inteira para que
+ * o próximo jogador não veja a mão de quem acabou de jogar.
+ */
+const HandoffScreen: React.FC<HandoffScreenProps> = ({ player, isChooser, round, onReady }) => {
+  return (
+    <View style={styles.overlay}>
+      <Text style={styles.roundText}>Rodada {round}</Text>
+      <Text style={styles.avatar}>{player.avatar}</Text>
+      <Text style={styles.title}>Vez de {player.nickname}</Text>
+      <Text style={styles.subtitle}>
+        {isChooser
+          ? 'Você escolhe o atributo desta rodada.'
+          : 'Escolha sua carta sem deixar os outros verem.'}
+      </Text>
+      <Text style={styles.hint}>Passe o aparelho e toque quando estiver pronto.</Text>
+      <TouchableOpacity style={styles.button} onPress={onReady}>
+        <Text style={styles.buttonText}>Mostrar minhas cartas</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 20,
+    backgroundColor: '#1a252f',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  roundText: {
+    color: '#95a5a6',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  avatar: {
+    fontSize: 56,
+    marginBottom: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 26,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#ecf0f1',
+    fontSize: 16,
+    marginBottom: 4,
+  },
+  hint: {
+    color: '#95a5a6',
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  button: {
+    backgroundColor: '#2ecc71',
+    paddingVertical: 14,
+    paddingHorizontal: 35,
+    borderRadius: 30,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
+
+export default HandoffScreen;
@@ -0,0 +1,49 @@
+// src/components/game/PhaseScheduler.tsx
+
+import React, { useEffect } from 'react';
+import { GameState } from '../../types';
+import { advanceOverduePhase } from '../../services/gameService';
+import { isGameRuleError } from '../../utils/gameErrors';
+
+interface PhaseSchedulerProps {
+  roomId: string;
+  gameState: GameState | null;
+  isHost: boolean;
+}
+
+/**
+ * Avança as fases automáticas quando o prazo salvo no GameState vence.
+ * Só o anfitrião aplica ações na partida (as regras do banco não deixam os
+ * demais gravá-la), então os outros aparelhos não avançam a fase por conta
+ * própria: se o anfitrião cair, a presença passa a sala a outro jogador
+ * depois de HOST_GRACE_MS (ver presenceService), e o novo anfitrião conclui
+ * a fase vencida assim que assume. Limitação: um anfitrião que continua
+ * conectado mas parou de rodar o app (ex.: tela bloqueada sem perder a
+ * conexão) segura a partida até a conexão cair.
+ */
+const PhaseScheduler: React.FC<PhaseSchedulerProps> = ({
+  roomId,
+  gameState,
+  isHost,
+}) => {
+  const phaseDeadline = gameState?.phaseDeadline;
+
+  useEffect(() => {
+    if (!phaseDeadline || !isHost) return;
+
+    const delay = Math.max(new Date(phaseDeadline).getTime() - Date.now(), 0);
+    const timer = setTimeout(() => {
+      advanceOverduePhase(roomId).catch(error => {
+        // A transição já foi concluída
+        if (isGameRuleError(error, 'INVALID_PHASE') || isGameRuleError(error, 'TRANSITION_NOT_DUE')) return;
+        console.error('Erro ao avançar fase:', error);
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [roomId, phaseDeadline, isHost]);
+
+  return null; // Este componente não renderiza nada
+};
+
+export default PhaseScheduler;
@@ -11,9 +11,10 @@ interface PlayerPositionProps {
   avatarSize: number;
   cardWidth: number;
   cardHeight: number;
+  isTeammate?: boolean; // Modo em duplas: destaca o parceiro do jogador local
 }
 
-const PlayerPosition: React.FC<PlayerPositionProps> = ({ player, cardCount, style, avatarSize, cardWidth, cardHeight }) => {
+const PlayerPosition: React.FC<PlayerPositionProps> = ({ player, cardCount, style, avatarSize, cardWidth, cardHeight, isTeammate = false }) => {
   
   // Estilos dinâmicos calculados a partir das props
   const dynamicStyles = {
@@ -37,12 +38,17 @@ const PlayerPosition: React.FC<PlayerPositionProps> = ({ player, cardCount, styl
     }
   };
 
+  const isOffline = player.connection === 'offline';
+
   return (
     <View style={[styles.container, style]}>
-      <View style={[styles.avatarContainer, dynamicStyles.avatarContainer]}>
+      <View style={[styles.avatarContainer, dynamicStyles.avatarContainer, isTeammate && styles.teammateAvatar, isOffline && styles.offlineAvatar]}>
         <Text style={dynamicStyles.avatarText}>{player.avatar}</Text>
       </View>
-      <Text style={[styles.playerName, dynamicStyles.playerName]}>{player.nickname}</Text>
+      <Text style={[styles.playerName, dynamicStyles.playerName]}>{isTeammate ? `🤝 ${player.nickname}` : player.nickname}{player.replacedByBot && ' 🤖'}</Text>
+      {isOffline && !player.replacedByBot && (
+        <Text style={styles.presenceText}>📡 Reconectando...</Text>
+      )}
       
       <View style={[styles.opponentHand, dynamicStyles.opponentHand]}>
         {Array.from({ length: cardCount }).map((_, index) => {
@@ -62,6 +68,7 @@ const PlayerPosition: React.FC<PlayerPositionProps> = ({ player, cardCount, styl
               style={[
                 styles.cardBack,
                 dynamicStyles.cardBack,
+                isTeammate && styles.teammateCardBack,
                 cardStyle,
               ]}
             />
@@ -111,6 +118,23 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     shadowOffset: {width: 0, height: 1},
   },
+  teammateAvatar: {
+    borderColor: '#FFD700',
+    borderWidth: 3,
+  },
+  offlineAvatar: {
+    opacity: 0.4,
+  },
+  presenceText: {
+    color: '#F5B041',
+    fontSize: 11,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  teammateCardBack: {
+    backgroundColor: '#2E7D32',
+    borderColor: '#FFD700',
+  },
 });
 
 export default PlayerPosition;
\ No newline at end of file
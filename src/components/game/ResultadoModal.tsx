@@ -10,31 +10,58 @@ import {
   ScrollView,
   Animated,
 } from 'react-native';
-import { RoundResult, Card } from '../../types';
-import { formatAttributeValue } from '../../utils/gameUtils';
+import { RoundResult, Card, AttributeDefinitions, RankingEntry, EndCondition, TeamId } from '../../types';
+import { formatAttributeValue, getAttributeLabel, isLowerBetter, TEAM_NAMES } from '../../utils/gameUtils';
 
 interface ResultadoModalProps {
   visible: boolean;
   roundResult: RoundResult | null;
   allCards: Card[];
-  playerNickname: string;
+  playerId: string;
+  playerNames?: { [playerId: string]: string }; // Apelidos para exibição; sem eles mostra o ID
   onClose: () => void;
   onNextRound: () => void;
   isGameFinished?: boolean;
   gameWinner?: string;
   isHost: boolean;
+  attributeDefinitions?: AttributeDefinitions;
+  ranking?: RankingEntry[];
+  endReason?: EndCondition;
+  teams?: { [playerId: string]: TeamId };
+  winningTeam?: TeamId | null;
+  onRematch?: () => void; // Fim de jogo: pede revanche na mesma sala
+  hasVotedRematch?: boolean;
+  rematchVotes?: number;
+  rematchTotal?: number;
 }
 
+const END_REASON_TEXT: { [reason in EndCondition]: string } = {
+  'last-standing': 'Só restou um jogador (ou um time) na mesa',
+  'max-rounds': 'Limite de rodadas atingido',
+  'time-limit': 'O tempo da partida acabou',
+  'card-target': 'Meta de cartas alcançada',
+};
+
 const ResultadoModal: React.FC<ResultadoModalProps> = ({
   visible,
   roundResult,
   allCards,
-  playerNickname,
+  playerId,
+  playerNames,
   onClose,
   onNextRound,
   isGameFinished = false,
   gameWinner,
   isHost,
+  attributeDefinitions,
+  ranking,
+  endReason,
+  teams,
+  winningTeam,
+  onRematch,
+  hasVotedRematch = false,
+  rematchVotes = 0,
+  rematchTotal = 0,
 }) => {
   const scaleValue = useRef(new Animated.Value(0)).current;
 
@@ -56,12 +83,25 @@ const ResultadoModal: React.FC<ResultadoModalProps> = ({
     return card?.name || 'Carta desconhecida';
   };
 
-  const isLowerBetter = roundResult.selectedAttribute === 'Fundação';
+  const lowerWins = isLowerBetter(roundResult.selectedAttribute, attributeDefinitions);
   const sortedResults = Object.entries(roundResult.playerCards)
-    .sort(([, a], [, b]) => isLowerBetter ? a.value - b.value : b.value - a.value);
+    .sort(([, a], [, b]) => lowerWins ? a.value - b.value : b.value - a.value);
+
+  const isDraw = roundResult.isDraw || !roundResult.winner;
+  const isWinner = roundResult.winner === playerId;
+  const nameOf = (player: string): string => playerNames?.[player] || player;
+  const winnerName = roundResult.winner ? nameOf(roundResult.winner) : null;
 
-  const isWinner = roundResult.winner === playerNickname;
-  const winnerNickname = roundResult.winner;
+  const getFinalMessage = (): string => {
+    if (teams) {
+      if (!winningTeam) return 'A partida terminou empatada entre os times!';
+      const isYourTeam = teams[playerId] === winningTeam;
+      return `Vitória do ${TEAM_NAMES[winningTeam]}!${isYourTeam ? ' Parabéns!' : ''}`;
+    }
+    return gameWinner
+      ? `O grande vencedor é ${nameOf(gameWinner)}!${gameWinner === playerId ? ' Parabéns!' : ''}`
+      : 'A partida terminou empatada na liderança!';
+  };
 
   return (
     <Modal
@@ -81,31 +121,71 @@ const ResultadoModal: React.FC<ResultadoModalProps> = ({
             {isGameFinished ? (
               <>
                 <Text style={styles.title}>🏆 FIM DE JOGO 🏆</Text>
-                <Text style={styles.subtitle}>
-                  O grande vencedor é {gameWinner}!
-                  {gameWinner === playerNickname && ' Parabéns!'}
-                </Text>
+                {endReason && <Text style={styles.endReason}>{END_REASON_TEXT[endReason]}</Text>}
+                <Text style={styles.subtitle}>{getFinalMessage()}</Text>
               </>
             ) : (
               <>
                 <Text style={styles.title}>
-                  {isWinner ? '🎉 Você Venceu a Rodada! 🎉' : `😔 ${winnerNickname} Venceu a Rodada!`}
+                  {isDraw
+                    ? '🤝 Empate! As cartas vão para o monte'
+                    : isWinner ? '🎉 Você Venceu a Rodada! 🎉' : `😔 ${winnerName} Venceu a Rodada!`}
                 </Text>
                 <Text style={styles.subtitle}>
-                  O atributo era "{roundResult.selectedAttribute}"
+                  O atributo era "{getAttributeLabel(roundResult.selectedAttribute, attributeDefinitions)}"
                 </Text>
               </>
             )}
           </View>
           
           <ScrollView style={styles.resultsContainer}>
-            {sortedResults.map(([player, result]: [string, { cardId: string; value: number }], index: number) => (
+            {isGameFinished && ranking ? ranking.map(entry => (
+              <View
+                key={entry.player}
+                style={[
+                  styles.resultRow,
+                  (teams ? teams[entry.player] === winningTeam : entry.position === 1) && styles.winnerRow,
+                  entry.player === playerId && styles.yourRow,
+                ]}
+              >
+                <View style={styles.positionContainer}>
+                  <Text style={styles.position}>
+                    {entry.position === 1 ? '🏆' : `${entry.position}º`}
+                  </Text>
+                </View>
+
+                <View style={styles.playerInfo}>
+                  <Text style={[
+                    styles.playerName,
+                    entry.player === playerId && styles.yourName,
+                  ]}>
+                    {nameOf(entry.player)}
+                    {entry.player === playerId && ' (Você)'}
+                  </Text>
+                  <Text style={styles.cardName}>
+                    {teams && `${TEAM_NAMES[teams[entry.player]]} · `}
+                    {entry.eliminatedInRound !== undefined
+                      ? `${entry.forfeited ? 'Desistiu' : 'Eliminado'} na rodada ${entry.eliminatedInRound}`
+                      : `${entry.roundsWon} rodadas vencidas`}
+                  </Text>
+                </View>
+
+                <View style={styles.valueContainer}>
+                  <Text style={[
+                    styles.resultValue,
+                    entry.position === 1 && styles.winnerValue,
+                  ]}>
+                    {entry.cards} cartas
+                  </Text>
+                </View>
+              </View>
+            )) : sortedResults.map(([player, result]: [string, { cardId: string; value: number }], index: number) => (
               <View 
                 key={player}
                 style={[
                   styles.resultRow,
-                  index === 0 && styles.winnerRow,
-                  player === playerNickname && styles.yourRow,
+                  (isDraw ? roundResult.tiedPlayers?.includes(player) : index === 0) && styles.winnerRow,
+                  player === playerId && styles.yourRow,
                 ]}
               >
                 <View style={styles.positionContainer}>
@@ -117,10 +197,10 @@ const ResultadoModal: React.FC<ResultadoModalProps> = ({
                 <View style={styles.playerInfo}>
                   <Text style={[
                     styles.playerName,
-                    player === playerNickname && styles.yourName,
+                    player === playerId && styles.yourName,
                   ]}>
-                    {player}
-                    {player === playerNickname && ' (Você)'}
+                    {nameOf(player)}
+                    {player === playerId && ' (Você)'}
                   </Text>
                   <Text style={styles.cardName}>
                     {getCardName(result.cardId)}
@@ -132,7 +212,7 @@ const ResultadoModal: React.FC<ResultadoModalProps> = ({
                     styles.resultValue,
                     index === 0 && styles.winnerValue,
                   ]}>
-                    {formatAttributeValue(roundResult.selectedAttribute, result.value)}
+                    {formatAttributeValue(roundResult.selectedAttribute, result.value, attributeDefinitions)}
                   </Text>
                 </View>
               </View>
@@ -141,12 +221,30 @@ const ResultadoModal: React.FC<ResultadoModalProps> = ({
 
           <View style={styles.buttonContainer}>
             {isGameFinished ? (
-              <TouchableOpacity
-                style={[styles.actionButton, styles.finishButton]}
-                onPress={onClose}
-              >
-                <Text style={styles.actionButtonText}>Voltar ao Lobby</Text>
-              </TouchableOpacity>
+              <>
+                {onRematch && (
+                  <TouchableOpacity
+                    style={[
+                      styles.actionButton,
+                      hasVotedRematch ? styles.disabledButton : styles.nextButton,
+                    ]}
+                    onPress={onRematch}
+                    disabled={hasVotedRematch}
+                  >
+                    <Text style={styles.actionButtonText}>
+                      {hasVotedRematch
+                        ? `Aguardando os outros (${rematchVotes}/${rematchTotal})`
+                        : 'Jogar novamente'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.finishButton, onRematch && styles.secondaryButton]}
+                  onPress={onClose}
+                >
+                  <Text style={styles.actionButtonText}>{onRematch ? 'Sair da sala' : 'Voltar ao Lobby'}</Text>
+                </TouchableOpacity>
+              </>
             ) : (
               <TouchableOpacity
                 style={[
@@ -203,6 +301,12 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textAlign: 'center',
   },
+  endReason: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
   subtitle: {
     fontSize: 16,
     color: '#555',
@@ -290,6 +394,9 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#bdbdbd',
   },
+  secondaryButton: {
+    marginTop: 10,
+  },
 });
 
 export default ResultadoModal;
\ No newline at end of file
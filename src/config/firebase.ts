@@ -1,5 +1,7 @@
 import { initializeApp } from 'firebase/app';
 import { getDatabase } from 'firebase/database';
+import { initializeAuth, getReactNativePersistence } from 'firebase/auth';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Configuração do Firebase (pegue essas informações no console do Firebase)
 const firebaseConfig = {
@@ -17,4 +19,9 @@ const app = initializeApp(firebaseConfig);
 
 // Inicializar Realtime Database
 export const database = getDatabase(app);
+
+// Login anônimo salvo no aparelho: o mesmo uid volta depois de reiniciar o app
+export const auth = initializeAuth(app, {
+  persistence: getReactNativePersistence(AsyncStorage),
+});
 export default app;
\ No newline at end of file
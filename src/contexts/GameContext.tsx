@@ -6,6 +6,7 @@ import { Deck, GameContextState, Room } from '../types';
 // Ações do contexto
 type GameAction =
   | { type: 'SET_SELECTED_DECK'; payload: Deck | null }
+  | { type: 'SET_PLAYER_ID'; payload: string }
   | { type: 'SET_PLAYER_NICKNAME'; payload: string }
   | { type: 'SET_PLAYER_AVATAR'; payload: string | null } // Ação para o avatar
   | { type: 'SET_CURRENT_ROOM'; payload: Room | null }
@@ -15,6 +16,7 @@ type GameAction =
 // O tipo GameContextState agora espera a propriedade playerAvatar
 const initialState: GameContextState = {
   selectedDeck: null,
+  playerId: '',
   playerNickname: '',
   playerAvatar: null, // Estado inicial do avatar
   currentRoom: null,
@@ -27,6 +29,8 @@ const gameReducer = (state: GameContextState, action: GameAction): GameContextSt
   switch (action.type) {
     case 'SET_SELECTED_DECK':
       return { ...state, selectedDeck: action.payload };
+    case 'SET_PLAYER_ID':
+      return { ...state, playerId: action.payload };
     case 'SET_PLAYER_NICKNAME':
       return { ...state, playerNickname: action.payload };
     case 'SET_PLAYER_AVATAR':
@@ -38,6 +42,7 @@ const gameReducer = (state: GameContextState, action: GameAction): GameContextSt
     case 'RESET_GAME':
       return {
         ...initialState,
+        playerId: state.playerId,
         playerNickname: state.playerNickname,
         playerAvatar: state.playerAvatar, // Mantém o avatar ao resetar
       };
@@ -49,6 +54,7 @@ const gameReducer = (state: GameContextState, action: GameAction): GameContextSt
 interface GameContextType {
   state: GameContextState;
   setSelectedDeck: (deck: Deck | null) => void;
+  setPlayerId: (playerId: string) => void;
   setPlayerNickname: (nickname: string) => void;
   setPlayerAvatar: (avatar: string | null) => void;
   setCurrentRoom: (room: Room | null) => void;
@@ -69,6 +75,10 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     dispatch({ type: 'SET_SELECTED_DECK', payload: deck });
   }, []);
 
+  const setPlayerId = useCallback((playerId: string) => {
+    dispatch({ type: 'SET_PLAYER_ID', payload: playerId });
+  }, []);
+
   const setPlayerNickname = useCallback((nickname: string) => {
     dispatch({ type: 'SET_PLAYER_NICKNAME', payload: nickname });
   }, []);
@@ -92,12 +102,13 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   const value = React.useMemo(() => ({
     state,
     setSelectedDeck,
+    setPlayerId,
     setPlayerNickname,
     setPlayerAvatar,
     setCurrentRoom,
     setInRoom,
     resetGame,
-  }), [state, setSelectedDeck, setPlayerNickname, setPlayerAvatar, setCurrentRoom, setInRoom, resetGame]);
+  }), [state, setSelectedDeck, setPlayerId, setPlayerNickname, setPlayerAvatar, setCurrentRoom, setInRoom, resetGame]);
 
   return (
     <GameContext.Provider value={value}>
@@ -1,13 +1,14 @@
 // src/data/decks.ts
 
-import { Card, Deck } from '../types';
+import { AttributeDefinitions, Card, Deck } from '../types';
 
-// Baralho de Países - EXPANDIDO PARA 32 CARTAS
+// Baralho de Países - 32 cartas nos grupos A1–H4 + o Super Trunfo
 export const paisesCards: Card[] = [
   // América do Norte
   {
     id: 'brasil',
     name: 'Brasil',
+    code: 'A1',
     image: 'https://flagcdn.com/w320/br.png',
     attributes: {
       'População': 215000000,
@@ -20,6 +21,7 @@ export const paisesCards: Card[] = [
   {
     id: 'eua',
     name: 'Estados Unidos',
+    isSuperTrunfo: true,
     image: 'https://flagcdn.com/w320/us.png',
     attributes: {
       'População': 331002651,
@@ -32,6 +34,7 @@ export const paisesCards: Card[] = [
   {
     id: 'canada',
     name: 'Canadá',
+    code: 'A2',
     image: 'https://flagcdn.com/w320/ca.png',
     attributes: {
       'População': 37742154,
@@ -44,6 +47,7 @@ export const paisesCards: Card[] = [
   {
     id: 'mexico',
     name: 'México',
+    code: 'A3',
     image: 'https://flagcdn.com/w320/mx.png',
     attributes: {
       'População': 128932753,
@@ -58,6 +62,7 @@ export const paisesCards: Card[] = [
   {
     id: 'argentina',
     name: 'Argentina',
+    code: 'A4',
     image: 'https://flagcdn.com/w320/ar.png',
     attributes: {
       'População': 45195774,
@@ -70,6 +75,7 @@ export const paisesCards: Card[] = [
   {
     id: 'colombia',
     name: 'Colômbia',
+    code: 'B1',
     image: 'https://flagcdn.com/w320/co.png',
     attributes: {
       'População': 50882891,
@@ -82,6 +88,7 @@ export const paisesCards: Card[] = [
   {
     id: 'peru',
     name: 'Peru',
+    code: 'B2',
     image: 'https://flagcdn.com/w320/pe.png',
     attributes: {
       'População': 32971854,
@@ -94,6 +101,7 @@ export const paisesCards: Card[] = [
   {
     id: 'chile',
     name: 'Chile',
+    code: 'B3',
     image: 'https://flagcdn.com/w320/cl.png',
     attributes: {
       'População': 19116201,
@@ -108,6 +116,7 @@ export const paisesCards: Card[] = [
   {
     id: 'alemanha',
     name: 'Alemanha',
+    code: 'B4',
     image: 'https://flagcdn.com/w320/de.png',
     attributes: {
       'População': 83783942,
@@ -120,6 +129,7 @@ export const paisesCards: Card[] = [
   {
     id: 'franca',
     name: 'França',
+    code: 'C1',
     image: 'https://flagcdn.com/w320/fr.png',
     attributes: {
       'População': 65273511,
@@ -133,6 +143,7 @@ export const paisesCards: Card[] = [
   {
     id: 'reino_unido',
     name: 'Reino Unido',
+    code: 'C2',
     attributes: {
       'População': 67886011,
       'Área': 243610,
@@ -144,6 +155,7 @@ export const paisesCards: Card[] = [
   {
     id: 'italia',
     name: 'Itália',
+    code: 'C3',
     attributes: {
       'População': 60461826,
       'Área': 301340,
@@ -155,6 +167,7 @@ export const paisesCards: Card[] = [
   {
     id: 'espanha',
     name: 'Espanha',
+    code: 'C4',
     attributes: {
       'População': 46754778,
       'Área': 505370,
@@ -166,6 +179,7 @@ export const paisesCards: Card[] = [
   {
     id: 'russia',
     name: 'Rússia',
+    code: 'D1',
     attributes: {
       'População': 145934462,
       'Área': 17098242,
@@ -179,6 +193,7 @@ export const paisesCards: Card[] = [
   {
     id: 'china',
     name: 'China',
+    code: 'D2',
     attributes: {
       'População': 1439323776,
       'Área': 9596961,
@@ -190,6 +205,7 @@ export const paisesCards: Card[] = [
   {
     id: 'india',
     name: 'Índia',
+    code: 'D3',
     attributes: {
       'População': 1380004385,
       'Área': 3287263,
@@ -201,6 +217,7 @@ export const paisesCards: Card[] = [
   {
     id: 'japao',
     name: 'Japão',
+    code: 'D4',
     attributes: {
       'População': 126476461,
       'Área': 377930,
@@ -212,6 +229,7 @@ export const paisesCards: Card[] = [
   {
     id: 'coreia_sul',
     name: 'Coreia do Sul',
+    code: 'E1',
     attributes: {
       'População': 51269185,
       'Área': 100210,
@@ -223,6 +241,7 @@ export const paisesCards: Card[] = [
   {
     id: 'indonesia',
     name: 'Indonésia',
+    code: 'E2',
     attributes: {
       'População': 273523615,
       'Área': 1904569,
@@ -234,6 +253,7 @@ export const paisesCards: Card[] = [
   {
     id: 'tailandia',
     name: 'Tailândia',
+    code: 'E3',
     attributes: {
       'População': 69799978,
       'Área': 513120,
@@ -247,6 +267,7 @@ export const paisesCards: Card[] = [
   {
     id: 'arabia_saudita',
     name: 'Arábia Saudita',
+    code: 'E4',
     attributes: {
       'População': 34813871,
       'Área': 2149690,
@@ -258,6 +279,7 @@ export const paisesCards: Card[] = [
   {
     id: 'turquia',
     name: 'Turquia',
+    code: 'F1',
     attributes: {
       'População': 84339067,
       'Área': 783562,
@@ -269,6 +291,7 @@ export const paisesCards: Card[] = [
   {
     id: 'israel',
     name: 'Israel',
+    code: 'F2',
     attributes: {
       'População': 9216900,
       'Área': 20770,
@@ -282,6 +305,7 @@ export const paisesCards: Card[] = [
   {
     id: 'nigeria',
     name: 'Nigéria',
+    code: 'F3',
     attributes: {
       'População': 206139589,
       'Área': 923768,
@@ -293,6 +317,7 @@ export const paisesCards: Card[] = [
   {
     id: 'africa_sul',
     name: 'África do Sul',
+    code: 'F4',
     attributes: {
       'População': 59308690,
       'Área': 1221037,
@@ -304,6 +329,7 @@ export const paisesCards: Card[] = [
   {
     id: 'egito',
     name: 'Egito',
+    code: 'G1',
     attributes: {
       'População': 102334404,
       'Área': 1001450,
@@ -315,6 +341,7 @@ export const paisesCards: Card[] = [
   {
     id: 'marrocos',
     name: 'Marrocos',
+    code: 'G2',
     attributes: {
       'População': 36910560,
       'Área': 446550,
@@ -328,6 +355,7 @@ export const paisesCards: Card[] = [
   {
     id: 'australia',
     name: 'Austrália',
+    code: 'G3',
     attributes: {
       'População': 25499884,
       'Área': 7692024,
@@ -339,6 +367,7 @@ export const paisesCards: Card[] = [
   {
     id: 'nova_zelandia',
     name: 'Nova Zelândia',
+    code: 'G4',
     attributes: {
       'População': 4822233,
       'Área': 268838,
@@ -352,6 +381,7 @@ export const paisesCards: Card[] = [
   {
     id: 'noruega',
     name: 'Noruega',
+    code: 'H1',
     attributes: {
       'População': 5421241,
       'Área': 323802,
@@ -363,6 +393,7 @@ export const paisesCards: Card[] = [
   {
     id: 'suecia',
     name: 'Suécia',
+    code: 'H2',
     attributes: {
       'População': 10099265,
       'Área': 450295,
@@ -374,6 +405,7 @@ export const paisesCards: Card[] = [
   {
     id: 'suica',
     name: 'Suíça',
+    code: 'H3',
     attributes: {
       'População': 8654622,
       'Área': 41285,
@@ -385,6 +417,7 @@ export const paisesCards: Card[] = [
   {
     id: 'singapura',
     name: 'Singapura',
+    code: 'H4',
     attributes: {
       'População': 5850342,
       'Área': 719,
@@ -401,6 +434,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'brasilia',
     name: 'Brasília',
+    code: 'A1',
     attributes: {
       'População': 3055149,
       'Altitude': 1172,
@@ -412,6 +446,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'pequim',
     name: 'Pequim',
+    isSuperTrunfo: true,
     attributes: {
       'População': 21542000,
       'Altitude': 43,
@@ -423,6 +458,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'washington',
     name: 'Washington D.C.',
+    code: 'A2',
     attributes: {
       'População': 705749,
       'Altitude': 125,
@@ -434,6 +470,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'moscou',
     name: 'Moscou',
+    code: 'A3',
     attributes: {
       'População': 12506468,
       'Altitude': 156,
@@ -445,6 +482,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'nova_delhi',
     name: 'Nova Delhi',
+    code: 'A4',
     attributes: {
       'População': 28514000,
       'Altitude': 216,
@@ -456,6 +494,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'berlim',
     name: 'Berlim',
+    code: 'B1',
     attributes: {
       'População': 3669491,
       'Altitude': 34,
@@ -467,6 +506,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'toquio',
     name: 'Tóquio',
+    code: 'B2',
     attributes: {
       'População': 37400068,
       'Altitude': 40,
@@ -478,6 +518,7 @@ export const capitaisCards: Card[] = [
   {
     id: 'ottawa',
     name: 'Ottawa',
+    code: 'B3',
     attributes: {
       'População': 994837,
       'Altitude': 70,
@@ -488,6 +529,27 @@ export const capitaisCards: Card[] = [
   }
 ];
 
+const formatPopulation = (value: number): string => {
+  return value >= 1000000
+    ? `${(value / 1000000).toFixed(1)}M`
+    : `${(value / 1000).toFixed(0)}K`;
+};
+
+// Metadados dos atributos de cada baralho
+export const paisesAttributes: AttributeDefinitions = {
+  'População': { direction: 'higher-wins', format: formatPopulation },
+  'Área': { direction: 'higher-wins', unit: 'km²' },
+  'PIB': { direction: 'higher-wins', format: value => `$${(value / 1000).toFixed(0)}B` },
+  'IDH': { direction: 'higher-wins', format: value => (value / 1000).toFixed(3) },
+};
+
+export const capitaisAttributes: AttributeDefinitions = {
+  'População': { direction: 'higher-wins', format: formatPopulation },
+  'Altitude': { direction: 'higher-wins', format: value => `${value}m` },
+  'Fundação': { direction: 'lower-wins', format: value => value.toString() },
+  'Área Urbana': { direction: 'higher-wins', unit: 'km²' },
+};
+
 // Mapeamento dos baralhos
 export const DECK_CARDS: { [key: string]: Card[] } = {
   'paises': paisesCards,
@@ -496,4 +558,39 @@ export const DECK_CARDS: { [key: string]: Card[] } = {
 
 export const getDeckCards = (deckId: string): Card[] => {
   return DECK_CARDS[deckId] || [];
-};
\ No newline at end of file
+};
+
+export const DECK_ATTRIBUTES: { [key: string]: AttributeDefinitions } = {
+  'paises': paisesAttributes,
+  'capitais': capitaisAttributes,
+};
+
+export const getDeckAttributes = (deckId?: string): AttributeDefinitions => {
+  return (deckId && DECK_ATTRIBUTES[deckId]) || {};
+};
+
+// Baralhos disponíveis para escolha
+export const AVAILABLE_DECKS: Deck[] = [
+  {
+    id: 'paises',
+    name: 'Países',
+    description:
+      'Explore o mundo com dados de países como população, área e PIB',
+    imageSource: require('../assets/images/paises-deck.png'),
+    totalCards: 32,
+    categories: ['População', 'Área', 'PIB', 'IDH'],
+  },
+  {
+    id: 'capitais',
+    name: 'Capitais',
+    description:
+      'Descubra capitais mundiais com população, altitude e fundação',
+    imageSource: require('../assets/images/capitais-deck.png'),
+    totalCards: 28,
+    categories: ['População', 'Altitude', 'Fundação', 'Área Urbana'],
+  },
+];
+
+export const getDeckById = (deckId: string): Deck | null => {
+  return AVAILABLE_DECKS.find(deck => deck.id === deckId) || null;
+};
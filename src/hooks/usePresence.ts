@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { Room } from '../types';
+import {
+  trackPresence,
+  enforcePresence,
+  getPresenceSupervisor,
+  PRESENCE_CHECK_INTERVAL_MS,
+} from '../services/presenceService';
+
+/**
+ * Mantém a presença do jogador na sala e, se ele for o supervisor da vez,
+ * verifica periodicamente quem caiu e não voltou dentro do prazo.
+ */
+export const usePresence = (room: Room | null, playerId: string) => {
+  const roomId = room?.id;
+  const isInRoom = !!room?.players?.[playerId];
+  const isSupervisor = !!room && getPresenceSupervisor(room) === playerId;
+
+  useEffect(() => {
+    if (!roomId || !isInRoom) return;
+    return trackPresence(roomId, playerId);
+  }, [roomId, isInRoom, playerId]);
+
+  useEffect(() => {
+    if (!roomId || !isSupervisor) return;
+    const interval = setInterval(() => {
+      enforcePresence(roomId).catch(error => {
+        console.error('Erro ao verificar presença:', error);
+      });
+    }, PRESENCE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [roomId, isSupervisor]);
+};
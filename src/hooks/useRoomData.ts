@@ -16,7 +16,7 @@ export const useRoomData = () => {
         maxPlayers: 4,
         roomCode: '',
         deckName: '',
-        hostNickname: '',
+        hostId: '',
       };
     }
 
@@ -30,7 +30,7 @@ export const useRoomData = () => {
       maxPlayers: currentRoom.maxPlayers || 4,
       roomCode: currentRoom.code || '',
       deckName: currentRoom.deckName || '',
-      hostNickname: currentRoom.hostNickname || '',
+      hostId: currentRoom.hostId || '',
       roomId: currentRoom.id || '',
     };
   }, [state.currentRoom]);
@@ -6,6 +6,7 @@ import LoginScreen from '../screens/LoginScreen';
 import DeckSelectionScreen from '../screens/DeckSelectionScreen';
 import LobbyScreen from '../screens/LobbyScreen';
 import GameScreen from '../screens/GameScreen';
+import HotseatSetupScreen from '../screens/HotseatSetupScreen';
 
 const Stack = createStackNavigator<RootStackParamList>();
 
@@ -22,6 +23,7 @@ const AppNavigator: React.FC = () => {
         <Stack.Screen name="Login" component={LoginScreen} />
         <Stack.Screen name="DeckSelection" component={DeckSelectionScreen} />
         <Stack.Screen name="Lobby" component={LobbyScreen} />
+        <Stack.Screen name="HotseatSetup" component={HotseatSetupScreen} />
         <Stack.Screen name="Game" component={GameScreen} />
       </Stack.Navigator>
     </NavigationContainer>
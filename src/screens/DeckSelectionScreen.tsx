@@ -12,9 +12,11 @@ import {
 } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList, Deck } from '../types';
+import { AVAILABLE_DECKS } from '../data/decks';
 import { useGame } from '../contexts/GameContext';
 import BaralhoCard from '../components/common/BaralhoCard';
-import { getUserData } from '../services/storageService';
+import { getUserData, getPlayerId, getOfflineResults } from '../services/storageService';
+import { startOfflineMatch } from '../services/offlineService';
 
 type DeckSelectionNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -25,36 +27,15 @@ interface Props {
   navigation: DeckSelectionNavigationProp;
 }
 
-const AVAILABLE_DECKS: Deck[] = [
-  {
-    id: 'paises',
-    name: 'Países',
-    description:
-      'Explore o mundo com dados de países como população, área e PIB',
-    imageSource: require('../assets/images/paises-deck.png'),
-    totalCards: 32,
-    categories: ['População', 'Área', 'PIB', 'IDH'],
-  },
-  {
-    id: 'capitais',
-    name: 'Capitais',
-    description:
-      'Descubra capitais mundiais com população, altitude e fundação',
-    imageSource: require('../assets/images/capitais-deck.png'),
-    totalCards: 28,
-    categories: ['População', 'Altitude', 'Fundação', 'Área Urbana'],
-  },
-];
-
 const DeckSelectionScreen: React.FC<Props> = ({ navigation }) => {
-  const { state, setSelectedDeck, setPlayerNickname, setPlayerAvatar } = useGame();
-  const [selectedDeckId, setSelectedDeckId] = useState<string | null>(null);
-  
-  // CORREÇÃO: Renomeada para _setIsLoading para remover o aviso do linter.
-  const [isLoading, _setIsLoading] = useState(false);
+  const { state, setSelectedDeck, setPlayerId, setPlayerNickname, setPlayerAvatar, setCurrentRoom } = useGame();
+  const [selectedDeckId, setSelectedDeckId] = useState<string | null>(state.selectedDeck?.id || null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [offlineStats, setOfflineStats] = useState<{ played: number; won: number } | null>(null);
 
   const loadUserData = useCallback(async () => {
     try {
+      setPlayerId(await getPlayerId());
       const userData = await getUserData();
       if (userData) {
         setPlayerNickname(userData.nickname);
@@ -63,12 +44,24 @@ const DeckSelectionScreen: React.FC<Props> = ({ navigation }) => {
     } catch (error) {
       console.error('Erro ao carregar dados do usuário:', error);
     }
-  }, [setPlayerNickname, setPlayerAvatar]);
+  }, [setPlayerId, setPlayerNickname, setPlayerAvatar]);
 
   useEffect(() => {
     loadUserData();
   }, [loadUserData]);
 
+  // Atualiza o retrospecto offline sempre que a tela volta a aparecer
+  useEffect(() => {
+    const loadOfflineStats = async () => {
+      const results = await getOfflineResults();
+      setOfflineStats(results.length > 0
+        ? { played: results.length, won: results.filter(r => r.position === 1).length }
+        : null);
+    };
+    loadOfflineStats();
+    return navigation.addListener('focus', loadOfflineStats);
+  }, [navigation]);
+
   const handleDeckSelect = (deck: Deck) => {
     setSelectedDeckId(deck.id);
     setSelectedDeck(deck);
@@ -82,6 +75,26 @@ const DeckSelectionScreen: React.FC<Props> = ({ navigation }) => {
     navigation.navigate('Lobby');
   };
 
+  const handlePlayOffline = async () => {
+    if (!state.selectedDeck) {
+      Alert.alert('Atenção', 'Por favor, selecione um baralho para continuar.');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const room = await startOfflineMatch(
+        { id: state.playerId, nickname: state.playerNickname, avatar: state.playerAvatar || '' },
+        state.selectedDeck
+      );
+      setCurrentRoom(room);
+      navigation.navigate('Game', { roomId: room.id, offline: true });
+    } catch (error) {
+      Alert.alert('Erro', 'Não foi possível iniciar a partida offline.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -130,6 +143,33 @@ const DeckSelectionScreen: React.FC<Props> = ({ navigation }) => {
             {isLoading ? 'Carregando...' : 'Continuar para o Lobby'}
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.offlineButton,
+            !state.selectedDeck && styles.offlineButtonDisabled,
+          ]}
+          onPress={handlePlayOffline}
+          disabled={!state.selectedDeck || isLoading}>
+          <Text style={[styles.offlineButtonText, !state.selectedDeck && styles.offlineButtonTextDisabled]}>
+            🤖 Jogar offline
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.offlineButton,
+            !state.selectedDeck && styles.offlineButtonDisabled,
+          ]}
+          onPress={() => navigation.navigate('HotseatSetup')}
+          disabled={!state.selectedDeck || isLoading}>
+          <Text style={[styles.offlineButtonText, !state.selectedDeck && styles.offlineButtonTextDisabled]}>
+            👨‍👩‍👧 Jogar no mesmo aparelho
+          </Text>
+        </TouchableOpacity>
+        {offlineStats && (
+          <Text style={styles.offlineStatsText}>
+            Offline: {offlineStats.won} vitória(s) em {offlineStats.played} partida(s)
+          </Text>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -209,6 +249,32 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFF',
   },
+  offlineButton: {
+    height: 48,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  offlineButtonDisabled: {
+    borderColor: '#CCC',
+  },
+  offlineButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  offlineButtonTextDisabled: {
+    color: '#CCC',
+  },
+  offlineStatsText: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
 });
 
 export default DeckSelectionScreen;
\ No newline at end of file
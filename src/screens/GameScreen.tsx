@@ -1,6 +1,6 @@
 // src/screens/GameScreen.tsx
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -17,19 +17,31 @@ import {
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import Orientation from 'react-native-orientation-locker';
-import { RootStackParamList, GameState, Card, Player } from '../types';
+import { RootStackParamList, GameState, Card, Player, AttributeDefinitions } from '../types';
 import { useGame } from '../contexts/GameContext';
 import {
   startGame,
   playCard,
   listenToGameState,
   selectAttributeAndProcess,
+  revealPendingCards,
+  getPendingReveals,
+  restorePendingReveal,
+  serveGameMoves,
 } from '../services/gameService';
-import { getDeckCards } from '../data/decks';
+import { leaveRoom, listenToRoom, startRoom, voteRematch } from '../services/firebaseService';
+import { endOfflineMatch, saveOfflineMatchResult } from '../services/offlineService';
+import { clearActiveGame, getActiveGame, saveActiveGame } from '../services/storageService';
+import { getDeckCards, getDeckAttributes } from '../data/decks';
+import { getActivePlayers, getCardCount, hasCommittedCard } from '../utils/gameEngine';
+import { isGameRuleError } from '../utils/gameErrors';
 import Carta from '../components/game/Carta';
 import BotController from '../components/game/BotController';
+import PhaseScheduler from '../components/game/PhaseScheduler';
 import TurnTimer from '../components/game/TurnTimer';
 import PlayerPosition from '../components/game/PlayerPosition';
+import ResultadoModal from '../components/game/ResultadoModal';
+import HandoffScreen from '../components/game/HandoffScreen';
 
 type GameScreenRouteProp = RouteProp<RootStackParamList, 'Game'>;
 type GameScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Game'>;
@@ -51,20 +63,31 @@ const OPPONENT_AVATAR_SIZE = H_HEIGHT * 0.15;
 const OPPONENT_CARD_WIDTH = H_WIDTH * 0.05;
 const OPPONENT_CARD_HEIGHT = OPPONENT_CARD_WIDTH * 1.5;
 
+// Modo local: próximo jogador que ainda precisa jogar. Quem escolhe o atributo
+// joga por último para não revelar a escolha aos demais.
+const getHotseatPlayer = (gameState: GameState | null): string | null => {
+  if (!gameState || gameState.gamePhase !== 'selecting') return null;
+  const seats = getActivePlayers(gameState);
+  const start = Math.max(seats.indexOf(gameState.currentPlayer), 0);
+  const order = [...seats.slice(start + 1), ...seats.slice(0, start + 1)];
+  return order.find(p => !hasCommittedCard(gameState, p)) || null;
+};
+
 // Componente para a carta animada no centro da mesa
 const AnimatedPlayedCard: React.FC<{
   card: Card;
   player: Player;
-  winnerNickname?: string;
+  winnerId?: string;
   gamePhase: GameState['gamePhase'];
   initialPosition: { x: number; y: number };
   winnerPosition: { x: number; y: number };
-}> = ({ card, player, winnerNickname, gamePhase, initialPosition, winnerPosition }) => {
+  attributeDefinitions: AttributeDefinitions;
+}> = ({ card, player, winnerId, gamePhase, initialPosition, winnerPosition, attributeDefinitions }) => {
     const anim = useRef(new Animated.ValueXY(initialPosition)).current;
     const scaleAnim = useRef(new Animated.Value(1)).current;
 
     useEffect(() => {
-        if (gamePhase === 'comparing-on-table' && player.nickname === winnerNickname) {
+        if (gamePhase === 'comparing-on-table' && player.id === winnerId) {
             // Animação para destacar a carta vencedora
             Animated.sequence([
                 Animated.timing(scaleAnim, { toValue: 1.15, duration: 300, useNativeDriver: false }),
@@ -78,17 +101,18 @@ const AnimatedPlayedCard: React.FC<{
                 useNativeDriver: false,
             }).start();
         }
-    }, [gamePhase, player.nickname, winnerNickname, anim, scaleAnim, winnerPosition]);
+    }, [gamePhase, player.id, winnerId, anim, scaleAnim, winnerPosition]);
 
     return (
         <Animated.View style={[anim.getLayout(), styles.playedCard, { transform: [{ scale: scaleAnim }] }]}>
             <Carta
                 card={card}
                 isRevealed={true}
-                isSelected={player.nickname === winnerNickname}
+                isSelected={player.id === winnerId}
                 isSelectable={false}
                 width={PLAYER_CARD_WIDTH}
                 height={PLAYER_CARD_HEIGHT}
+                attributeDefinitions={attributeDefinitions}
             />
         </Animated.View>
     );
@@ -96,7 +120,7 @@ const AnimatedPlayedCard: React.FC<{
 
 
 const GameScreen: React.FC<Props> = ({ route, navigation }) => {
-  const { roomId } = route.params;
+  const { roomId, offline, hotseat } = route.params;
   const { state, setCurrentRoom } = useGame();
 
   const [gameState, setGameState] = useState<GameState | null>(null);
@@ -107,6 +131,26 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isTimerActive, setIsTimerActive] = useState(false);
   const [timeUpTrigger, setTimeUpTrigger] = useState(false);
+  const [showFinalResults, setShowFinalResults] = useState(false);
+  const [hotseatViewer, setHotseatViewer] = useState<string | null>(null);
+  const [handoffReadyFor, setHandoffReadyFor] = useState<string | null>(null);
+
+  // No modo local o aparelho age como anfitrião e a mão exibida é a de quem está na vez
+  const hotseatPlayer = hotseat ? getHotseatPlayer(gameState) : null;
+  const deviceId = hotseat && state.currentRoom ? state.currentRoom.hostId : state.playerId;
+  // Só o anfitrião vê todas as mãos, aplica as jogadas e joga pelos bots
+  const isHostDevice = !!state.currentRoom && state.currentRoom.hostId === deviceId;
+  const viewerId = hotseat ? hotseatViewer || deviceId : state.playerId;
+  const handoffKey = hotseatPlayer && gameState ? `${gameState.currentRound}:${hotseatPlayer}` : null;
+  const isHandoffPending = !!handoffKey && handoffReadyFor !== handoffKey;
+
+  useEffect(() => {
+    if (hotseatPlayer) {
+      setHotseatViewer(hotseatPlayer);
+      setSelectedCardId(null);
+      setTentativeAttribute(null);
+    }
+  }, [hotseatPlayer]);
 
   useEffect(() => {
     Orientation.lockToLandscape();
@@ -129,14 +173,14 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
   }, [roomId, state.currentRoom, navigation]);
 
   const updatePlayerHand = useCallback((currentGameState: GameState | null, cards: Card[]) => {
-    if (!currentGameState || !cards.length || !currentGameState.playerCards || !state.playerNickname) {
+    if (!currentGameState || !cards.length || !currentGameState.playerCards || !viewerId) {
         setPlayerHand([]);
         return;
     }
-    const playerCardIds = currentGameState.playerCards[state.playerNickname] || [];
+    const playerCardIds = currentGameState.playerCards[viewerId] || [];
     const hand = playerCardIds.map(id => cards.find(card => card.id === id)).filter(Boolean) as Card[];
     setPlayerHand(hand);
-  }, [state.playerNickname]);
+  }, [viewerId]);
 
   useEffect(() => {
     if (!state.selectedDeck) {
@@ -148,29 +192,157 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
   }, [state.selectedDeck, navigation]);
 
   useEffect(() => {
-    if (roomId && state.currentRoom && allCards.length > 0 && !gameState) {
-      if (state.currentRoom.hostNickname === state.playerNickname) {
+    if (roomId && state.currentRoom?.status === 'playing' && allCards.length > 0 && !gameState) {
+      if (state.currentRoom.hostId === deviceId) {
         handleStartGame(allCards);
       }
     }
-  }, [state.currentRoom, allCards, gameState, state.playerNickname, handleStartGame, roomId]);
+  }, [state.currentRoom, allCards, gameState, deviceId, handleStartGame, roomId]);
 
   useEffect(() => {
     const unsubscribe = listenToGameState(roomId, (newGameState) => {
         setGameState(newGameState);
-        if (newGameState?.gameWinner) {
-            setTimeout(() => {
-                Alert.alert("Fim de Jogo!", `O vencedor é ${newGameState.gameWinner}!`, [
-                    { text: "OK", onPress: () => {
-                        setCurrentRoom(null);
-                        navigation.navigate('Lobby');
-                    }}
-                ]);
-            }, 3000);
+        revealPendingCards(roomId, newGameState).catch(error => {
+            console.error('Erro ao revelar cartas:', error);
+        });
+        if (newGameState?.ranking || newGameState?.gameWinner) {
+            setTimeout(() => setShowFinalResults(true), 3000);
         }
-    });
+    }, error => {
+        Alert.alert('Partida indisponível', error.message, [{ text: 'OK', onPress: () => navigation.goBack() }]);
+    }, isHostDevice ? undefined : state.playerId);
     return () => unsubscribe();
-  }, [roomId, navigation, setCurrentRoom]);
+  }, [roomId, navigation, isHostDevice, state.playerId]);
+
+  // As jogadas dos outros aparelhos chegam ao anfitrião, que as aplica
+  useEffect(() => {
+    if (!isHostDevice) return;
+    return serveGameMoves(roomId);
+  }, [isHostDevice, roomId]);
+
+  // Guarda a partida online no aparelho, com as cartas ainda não reveladas
+  // (a do jogador e as dos bots), para que ela possa ser retomada se o app for fechado
+  const deckId = state.selectedDeck?.id;
+  const rememberActiveGame = useCallback(async () => {
+    if (offline || !deckId) return;
+    try {
+      const { [state.playerId]: pendingReveal, ...botReveals } = getPendingReveals(roomId);
+      await saveActiveGame({
+        roomId,
+        deckId,
+        playerId: state.playerId,
+        savedAt: new Date().toISOString(),
+        pendingReveal,
+        botReveals,
+      });
+    } catch (error) {
+      console.error('Erro ao guardar partida em andamento:', error);
+    }
+  }, [offline, deckId, roomId, state.playerId]);
+
+  useEffect(() => {
+    if (offline) return;
+    const resume = async () => {
+      const activeGame = await getActiveGame();
+      if (activeGame?.roomId === roomId && activeGame.playerId === state.playerId) {
+        if (activeGame.pendingReveal) {
+          await restorePendingReveal(roomId, state.playerId, activeGame.pendingReveal);
+        }
+        for (const [botId, reveal] of Object.entries(activeGame.botReveals || {})) {
+          await restorePendingReveal(roomId, botId, reveal);
+        }
+      }
+      await rememberActiveGame();
+    };
+    resume().catch(error => {
+      console.error('Erro ao retomar carta não revelada:', error);
+    });
+  }, [offline, roomId, state.playerId, rememberActiveGame]);
+
+  // Sem o Lobby por baixo, a partida offline acompanha a própria sala
+  useEffect(() => {
+    if (!offline) return;
+    return listenToRoom(roomId, room => {
+      if (room) setCurrentRoom(room);
+    });
+  }, [offline, roomId, setCurrentRoom]);
+
+  const exitGame = useCallback(() => {
+    setCurrentRoom(null);
+    if (offline) {
+      endOfflineMatch();
+      navigation.navigate('DeckSelection');
+    } else {
+      clearActiveGame();
+      navigation.navigate('Lobby');
+    }
+  }, [navigation, setCurrentRoom, offline]);
+
+  const handleCloseFinalResults = useCallback(() => {
+    setShowFinalResults(false);
+    // A sala offline é descartada junto com o backend em memória
+    if (!offline) leaveRoom(roomId, state.playerId);
+    exitGame();
+  }, [exitGame, offline, roomId, state.playerId]);
+
+  const handleForfeit = useCallback(() => {
+    if (hotseat) {
+      Alert.alert('Encerrar partida', 'A partida local será descartada. Deseja mesmo sair?', [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Sair', style: 'destructive', onPress: exitGame },
+      ]);
+      return;
+    }
+    Alert.alert('Desistir da partida', 'Você será eliminado e sairá da sala. Deseja mesmo desistir?', [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Desistir',
+        style: 'destructive',
+        onPress: async () => {
+          await leaveRoom(roomId, state.playerId);
+          exitGame();
+        },
+      },
+    ]);
+  }, [exitGame, hotseat, roomId, state.playerId]);
+
+  const handleRematch = useCallback(async () => {
+    try {
+      // No modo local todos estão no mesmo aparelho: o pedido vale pelo grupo
+      const voters = hotseat
+        ? Object.values(state.currentRoom?.players || {}).filter(p => !p.isBot).map(p => p.id)
+        : [state.playerId];
+      for (const voter of voters) {
+        await voteRematch(roomId, voter);
+      }
+    } catch (error) {
+      Alert.alert('Erro', 'Não foi possível pedir a revanche');
+    }
+  }, [roomId, hotseat, state.currentRoom?.players, state.playerId]);
+
+  // Revanche aceita por todos: a sala volta a aguardar e o grupo retorna à sala no Lobby.
+  // Offline não há lobby: a nova partida começa direto contra os mesmos bots.
+  const roomStatus = state.currentRoom?.status;
+  useEffect(() => {
+    if (roomStatus !== 'waiting') return;
+    setShowFinalResults(false);
+    if (offline) {
+      startRoom(roomId).catch(() => Alert.alert('Erro', 'Não foi possível iniciar a revanche'));
+    } else {
+      navigation.navigate('Lobby');
+    }
+  }, [roomStatus, navigation, offline, roomId]);
+
+  const savedResultRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!offline || hotseat || gameState?.gamePhase !== 'finished' || !state.currentRoom) return;
+    const gameKey = gameState.startedAt || String(gameState.seed);
+    if (savedResultRef.current === gameKey) return;
+    savedResultRef.current = gameKey;
+    saveOfflineMatchResult(state.currentRoom, gameState, state.playerId).catch(error => {
+      console.error('Erro ao salvar resultado offline:', error);
+    });
+  }, [offline, hotseat, gameState, state.currentRoom, state.playerId]);
 
   useEffect(() => {
     updatePlayerHand(gameState, allCards);
@@ -183,43 +355,54 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   }, [gameState?.currentRound, gameState?.gamePhase]);
   
-  const isCurrentPlayer = gameState?.currentPlayer === state.playerNickname;
-  const hasPlayedCard = !!(gameState?.currentRoundCards && gameState?.currentRoundCards[state.playerNickname]);
+  const isCurrentPlayer = gameState?.currentPlayer === viewerId;
+  // No modo "carta do topo" o jogador só vê (e só pode jogar) a primeira carta do monte
+  const isTopCardMode = gameState?.settings?.playMode === 'top-card';
+  const visibleHand = useMemo(() => (isTopCardMode ? playerHand.slice(0, 1) : playerHand), [isTopCardMode, playerHand]);
+  const hasPlayedCard = !!gameState && hasCommittedCard(gameState, viewerId);
   
   const handleConfirmTurn = useCallback(async () => {
     if (!selectedCardId || !tentativeAttribute) return;
     setIsLoading(true);
     try {
-      await playCard(roomId, state.playerNickname, selectedCardId);
-      // CORREÇÃO: Passa allCards para a função
-      await selectAttributeAndProcess(roomId, tentativeAttribute, allCards);
-    } catch (error) { Alert.alert('Erro', 'Não foi possível confirmar a jogada.'); } 
+      await playCard(roomId, viewerId, selectedCardId);
+      await rememberActiveGame();
+      await selectAttributeAndProcess(roomId, viewerId, tentativeAttribute);
+    } catch (error) {
+      if (isGameRuleError(error)) Alert.alert('Jogada inválida', error.message);
+      else Alert.alert('Erro', 'Não foi possível confirmar a jogada.');
+    }
     finally { setIsLoading(false); }
-  },[roomId, state.playerNickname, selectedCardId, tentativeAttribute, allCards]);
+  },[roomId, viewerId, selectedCardId, tentativeAttribute, rememberActiveGame]);
   
   const handlePlayCardForNonCurrentPlayer = useCallback(async (cardId: string) => {
     if (hasPlayedCard) return;
     setIsLoading(true);
     try {
-      await playCard(roomId, state.playerNickname, cardId);
-    } catch (error) { Alert.alert('Erro', 'Não foi possível jogar a carta'); } 
+      await playCard(roomId, viewerId, cardId);
+      await rememberActiveGame();
+    } catch (error) {
+      if (isGameRuleError(error)) Alert.alert('Jogada inválida', error.message);
+      else Alert.alert('Erro', 'Não foi possível jogar a carta');
+    }
     finally { setIsLoading(false); }
-  }, [roomId, state.playerNickname, hasPlayedCard]);
+  }, [roomId, viewerId, hasPlayedCard, rememberActiveGame]);
 
   useEffect(() => {
     if (timeUpTrigger) {
-      if (!hasPlayedCard && playerHand.length > 0) {
-        const randomCard = playerHand[Math.floor(Math.random() * playerHand.length)];
+      if (!hasPlayedCard && visibleHand.length > 0) {
+        const randomCard = visibleHand[Math.floor(Math.random() * visibleHand.length)];
         setSelectedCardId(randomCard.id);
         handlePlayCardForNonCurrentPlayer(randomCard.id);
       }
       setTimeUpTrigger(false); 
     }
-  }, [timeUpTrigger, hasPlayedCard, playerHand, handlePlayCardForNonCurrentPlayer]);
+  }, [timeUpTrigger, hasPlayedCard, visibleHand, handlePlayCardForNonCurrentPlayer]);
   
   useEffect(() => {
-    setIsTimerActive(gameState?.gamePhase === 'selecting' && !hasPlayedCard && playerHand.length > 0);
-  }, [gameState?.gamePhase, hasPlayedCard, playerHand.length]);
+    // Sem cronômetro no modo local: o aparelho ainda está sendo passado adiante
+    setIsTimerActive(!hotseat && gameState?.gamePhase === 'selecting' && !hasPlayedCard && playerHand.length > 0);
+  }, [hotseat, gameState?.gamePhase, hasPlayedCard, playerHand.length]);
 
   const handleCardSelect = (card: Card) => {
     if (hasPlayedCard) return;
@@ -233,8 +416,8 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
     const players = Object.values(state.currentRoom?.players || {});
     if (players.length === 0) return { mainPlayer: null, opponents: [] };
 
-    const mainPlayer = players.find(p => p.nickname === state.playerNickname);
-    const opponents = players.filter(p => p.nickname !== state.playerNickname);
+    const mainPlayer = players.find(p => p.id === viewerId);
+    const opponents = players.filter(p => p.id !== viewerId);
     
     const opponentPositions: { [key: number]: ViewStyle[] } = {
         1: [ { top: H_HEIGHT * 0.05, alignSelf: 'center' } ],
@@ -256,19 +439,25 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
   }
 
   const selectedCardObject = allCards.find(c => c.id === selectedCardId);
+  const attributeDefinitions = getDeckAttributes(state.selectedDeck?.id);
 
   const renderPlayedCards = () => {
     if (!gameState || !state.currentRoom?.players) return null;
     const { gamePhase, currentRoundCards, roundWinner } = gameState;
     if (gamePhase !== 'animating-play' && gamePhase !== 'comparing-on-table' && gamePhase !== 'animating-win') return null;
 
-    const winnerData = Object.values(state.currentRoom.players).find(p => p.nickname === roundWinner);
-    const winnerIsMainPlayer = winnerData?.nickname === state.playerNickname;
-    const winnerOpponentData = opponents.find(o => o.player.nickname === roundWinner);
+    const winnerData = Object.values(state.currentRoom.players).find(p => p.id === roundWinner);
+    const winnerIsMainPlayer = winnerData?.id === viewerId;
+    const winnerOpponentData = opponents.find(o => o.player.id === roundWinner);
     
     const flatWinnerStyle = winnerOpponentData ? StyleSheet.flatten(winnerOpponentData.positionStyle) : {};
 
-    const winnerPosition = winnerIsMainPlayer 
+    // Em caso de empate as cartas ficam no centro da mesa (monte acumulado)
+    const potPosition = { x: H_WIDTH / 2 - PLAYER_CARD_WIDTH / 2, y: H_HEIGHT / 2 - PLAYER_CARD_HEIGHT / 2 };
+
+    const winnerPosition = !roundWinner
+        ? potPosition
+        : winnerIsMainPlayer 
         ? { x: H_WIDTH / 2 - PLAYER_CARD_WIDTH / 2, y: H_HEIGHT }
         : { 
             x: typeof flatWinnerStyle.left === 'number' ? flatWinnerStyle.left : (H_WIDTH / 2 - OPPONENT_AVATAR_SIZE / 2), 
@@ -282,9 +471,9 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
         { x: H_WIDTH / 2 + PLAYER_CARD_WIDTH * 0.2, y: H_HEIGHT / 2 + 10 },
     ];
 
-    return Object.keys(currentRoundCards).map((nickname, index) => {
-        const card = allCards.find(c => c.id === currentRoundCards[nickname]);
-        const player = Object.values(state.currentRoom!.players).find(p => p.nickname === nickname);
+    return Object.keys(currentRoundCards).map((playerId, index) => {
+        const card = allCards.find(c => c.id === currentRoundCards[playerId]);
+        const player = state.currentRoom!.players[playerId];
         if (!card || !player) return null;
         
         return (
@@ -292,10 +481,11 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
                 key={card.id}
                 card={card}
                 player={player}
-                winnerNickname={roundWinner || undefined}
+                winnerId={roundWinner || undefined}
                 gamePhase={gamePhase}
                 initialPosition={centerPositions[index % 4]}
                 winnerPosition={winnerPosition}
+                attributeDefinitions={attributeDefinitions}
             />
         );
     });
@@ -303,21 +493,34 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
     
   return (
     <View style={styles.gameTable}>
-      <BotController roomId={roomId} gameState={gameState} players={state.currentRoom.players} allCards={allCards} />
+      <BotController roomId={roomId} gameState={gameState} players={state.currentRoom.players} allCards={allCards} isController={isHostDevice} onBotPlayed={rememberActiveGame} />
+      <PhaseScheduler roomId={roomId} gameState={gameState} isHost={isHostDevice} />
       {isTimerActive && <View style={styles.timerContainer}><TurnTimer duration={15} isPlaying={isTimerActive} onTimeEnd={() => setTimeUpTrigger(true)} /></View>}
       
+      {gameState.gamePhase !== 'finished' && (
+        <TouchableOpacity style={styles.forfeitButton} onPress={handleForfeit}>
+          <Text style={styles.forfeitButtonText}>{hotseat ? '🚪 Sair' : '🏳️ Desistir'}</Text>
+        </TouchableOpacity>
+      )}
+
       {opponents.map(({ player, positionStyle }) => (
-        <PlayerPosition key={player.nickname} player={player} cardCount={gameState.playerCards?.[player.nickname]?.length || 0} style={positionStyle} avatarSize={OPPONENT_AVATAR_SIZE} cardWidth={OPPONENT_CARD_WIDTH} cardHeight={OPPONENT_CARD_HEIGHT} />
+        <PlayerPosition key={player.id} player={player} cardCount={getCardCount(gameState, player.id)} style={positionStyle} avatarSize={OPPONENT_AVATAR_SIZE} cardWidth={OPPONENT_CARD_WIDTH} cardHeight={OPPONENT_CARD_HEIGHT} isTeammate={!!gameState.teams && gameState.teams[player.id] === gameState.teams[viewerId]} />
       ))}
 
       <View style={styles.centerTableArea}>
           {renderPlayedCards()}
       </View>
 
+      {(gameState.pot?.length || 0) > 0 && (
+        <View style={styles.potContainer}>
+          <Text style={styles.potText}>🤝 Monte acumulado: {gameState.pot!.length} cartas</Text>
+        </View>
+      )}
+
       {!selectedCardObject && !hasPlayedCard && gameState.gamePhase === 'selecting' ? (
         <View style={styles.playerHandContainer}>
-          {playerHand.map((card, index) => {
-            const totalCards = playerHand.length;
+          {visibleHand.map((card, index) => {
+            const totalCards = visibleHand.length;
             const middleIndex = (totalCards - 1) / 2;
             const angle = (index - middleIndex) * 8;
             const translateY = Math.abs(index - middleIndex) * 12;
@@ -327,10 +530,13 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
             };
             return (
               <Animated.View key={card.id} style={[ styles.cardWrapper, cardStyle ]}>
-                <Carta card={card} isRevealed={true} isSelected={false} isSelectable={!hasPlayedCard} onSelect={() => handleCardSelect(card)} width={PLAYER_CARD_WIDTH} height={PLAYER_CARD_HEIGHT} />
+                <Carta card={card} isRevealed={true} isSelected={false} isSelectable={!hasPlayedCard} onSelect={() => handleCardSelect(card)} width={PLAYER_CARD_WIDTH} height={PLAYER_CARD_HEIGHT} attributeDefinitions={attributeDefinitions} />
               </Animated.View>
             );
           })}
+          {isTopCardMode && (
+            <Text style={styles.pileCountText}>🂠 {playerHand.length} cartas no monte</Text>
+          )}
         </View>
       ) : selectedCardObject && gameState.gamePhase === 'selecting' && (
         <View style={styles.zoomedCardContainer}>
@@ -345,6 +551,7 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
                   selectedAttribute={tentativeAttribute || undefined}
                   width={ZOOMED_CARD_WIDTH}
                   height={ZOOMED_CARD_HEIGHT}
+                  attributeDefinitions={attributeDefinitions}
                 />
             </View>
             {isCurrentPlayer && !hasPlayedCard && (
@@ -361,6 +568,37 @@ const GameScreen: React.FC<Props> = ({ route, navigation }) => {
         </View>
       )}
       
+      {isHandoffPending && hotseatPlayer && state.currentRoom.players[hotseatPlayer] && (
+        <HandoffScreen
+          player={state.currentRoom.players[hotseatPlayer]}
+          isChooser={gameState.currentPlayer === hotseatPlayer}
+          round={gameState.currentRound}
+          onReady={() => setHandoffReadyFor(handoffKey)}
+        />
+      )}
+
+      <ResultadoModal
+        visible={showFinalResults}
+        roundResult={gameState.roundHistory?.[gameState.roundHistory.length - 1] || null}
+        allCards={allCards}
+        playerId={hotseat ? '' : state.playerId}
+        playerNames={gameState.playerNames}
+        onClose={handleCloseFinalResults}
+        onNextRound={handleCloseFinalResults}
+        isGameFinished
+        gameWinner={gameState.gameWinner || undefined}
+        isHost={state.currentRoom.hostId === deviceId}
+        attributeDefinitions={attributeDefinitions}
+        ranking={gameState.ranking}
+        endReason={gameState.endReason}
+        onRematch={handleRematch}
+        hasVotedRematch={!!state.currentRoom.rematchVotes?.[deviceId]}
+        rematchVotes={Object.keys(state.currentRoom.rematchVotes || {}).length}
+        rematchTotal={Object.values(state.currentRoom.players).filter(p => !p.isBot).length}
+        teams={gameState.teams}
+        winningTeam={gameState.winningTeam}
+      />
+
       {isLoading && (<View style={styles.loadingOverlay}><ActivityIndicator size="large" color="#FFF" /><Text style={styles.loadingOverlayText}>Processando...</Text></View>)}
     </View>
   );
@@ -372,6 +610,8 @@ const styles = StyleSheet.create({
   loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center' },
   loadingText: { fontSize: 18, color: '#666', marginBottom: 16 },
   timerContainer: { position: 'absolute', top: 20, left: 20, zIndex: 10 },
+  forfeitButton: { position: 'absolute', bottom: 20, left: 20, zIndex: 10, backgroundColor: 'rgba(0, 0, 0, 0.5)', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16 },
+  forfeitButtonText: { color: '#fff', fontWeight: 'bold' },
   playerHandContainer: {
     position: 'absolute',
     bottom: -H_HEIGHT * 0.05,
@@ -383,6 +623,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   cardWrapper: {},
+  pileCountText: { color: '#fff', fontWeight: 'bold', fontSize: 16, marginLeft: 20 },
   loadingOverlay: { position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center' },
   loadingOverlayText: { color: '#FFF', fontSize: 16, marginTop: 16 },
   zoomedCardContainer: {
@@ -424,6 +665,19 @@ const styles = StyleSheet.create({
   playedCard: {
     position: 'absolute',
   },
+  potContainer: {
+    position: 'absolute',
+    top: 20,
+    right: 20,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+  },
+  potText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
 });
 
 export default GameScreen;
\ No newline at end of file
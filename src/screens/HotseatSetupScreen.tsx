@@ -0,0 +1,248 @@
+// src/screens/HotseatSetupScreen.tsx
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList, PlayerProfile } from '../types';
+import { useGame } from '../contexts/GameContext';
+import { validateNickname, formatNickname, AVATARS } from '../utils/validation';
+import { startHotseatMatch } from '../services/offlineService';
+import { generatePlayerId } from '../utils/random';
+
+type HotseatSetupNavigationProp = StackNavigationProp<RootStackParamList, 'HotseatSetup'>;
+
+interface Props {
+  navigation: HotseatSetupNavigationProp;
+}
+
+const MIN_PLAYERS = 2;
+const MAX_PLAYERS = 4;
+
+const HotseatSetupScreen: React.FC<Props> = ({ navigation }) => {
+  const { state, setCurrentRoom } = useGame();
+  const [players, setPlayers] = useState<PlayerProfile[]>([
+    { id: state.playerId, nickname: state.playerNickname, avatar: state.playerAvatar || AVATARS[0] },
+    { id: generatePlayerId(), nickname: '', avatar: AVATARS[1] },
+  ]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const updatePlayer = (index: number, changes: Partial<PlayerProfile>) => {
+    setPlayers(current => current.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  // Cada toque no avatar passa para o próximo da lista
+  const cycleAvatar = (index: number) => {
+    const nextIndex = (AVATARS.indexOf(players[index].avatar) + 1) % AVATARS.length;
+    updatePlayer(index, { avatar: AVATARS[nextIndex] });
+  };
+
+  const addPlayer = () => {
+    if (players.length >= MAX_PLAYERS) return;
+    setPlayers(current => [...current, { id: generatePlayerId(), nickname: '', avatar: AVATARS[current.length % AVATARS.length] }]);
+  };
+
+  const removePlayer = (index: number) => {
+    if (players.length <= MIN_PLAYERS) return;
+    setPlayers(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleStart = async () => {
+    if (!state.selectedDeck) {
+      Alert.alert('Atenção', 'Por favor, selecione um baralho para continuar.');
+      return;
+    }
+    for (const player of players) {
+      const validation = validateNickname(player.nickname);
+      if (!validation.isValid) {
+        Alert.alert('Apelido inválido', `${player.nickname || 'Jogador sem nome'}: ${validation.error}`);
+        return;
+      }
+    }
+    const localPlayers = players.map(p => ({ ...p, nickname: formatNickname(p.nickname) }));
+    if (new Set(localPlayers.map(p => p.nickname)).size !== localPlayers.length) {
+      Alert.alert('Apelidos repetidos', 'Cada jogador precisa de um apelido diferente.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const room = await startHotseatMatch(localPlayers, state.selectedDeck);
+      setCurrentRoom(room);
+      navigation.navigate('Game', { roomId: room.id, offline: true, hotseat: true });
+    } catch (error) {
+      Alert.alert('Erro', 'Não foi possível iniciar a partida local.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text style={styles.title}>👨‍👩‍👧 Jogar no mesmo aparelho</Text>
+          <Text style={styles.subtitle}>
+            De {MIN_PLAYERS} a {MAX_PLAYERS} jogadores revezando o aparelho. Baralho: {state.selectedDeck?.name}
+          </Text>
+        </View>
+
+        {players.map((player, index) => (
+          <View key={index} style={styles.playerRow}>
+            <TouchableOpacity style={styles.avatarContainer} onPress={() => cycleAvatar(index)}>
+              <Text style={styles.avatarText}>{player.avatar}</Text>
+            </TouchableOpacity>
+            <TextInput
+              style={styles.input}
+              value={player.nickname}
+              onChangeText={text => updatePlayer(index, { nickname: text })}
+              placeholder={`Jogador ${index + 1}`}
+              placeholderTextColor="#999"
+              maxLength={15}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {players.length > MIN_PLAYERS && (
+              <TouchableOpacity style={styles.removeButton} onPress={() => removePlayer(index)}>
+                <Text style={styles.removeButtonText}>✕</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+
+        {players.length < MAX_PLAYERS && (
+          <TouchableOpacity style={styles.addButton} onPress={addPlayer}>
+            <Text style={styles.addButtonText}>+ Adicionar jogador</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, isLoading && styles.buttonDisabled]}
+          onPress={handleStart}
+          disabled={isLoading}
+        >
+          {isLoading ? (<ActivityIndicator color="#FFF" />) : (<Text style={styles.buttonText}>Começar partida</Text>)}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>Voltar</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 24,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  avatarContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#FFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#DDD',
+    marginRight: 12,
+  },
+  avatarText: {
+    fontSize: 28,
+  },
+  input: {
+    flex: 1,
+    height: 56,
+    borderWidth: 2,
+    borderColor: '#DDD',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    backgroundColor: '#FFF',
+    color: '#333',
+  },
+  removeButton: {
+    marginLeft: 12,
+    padding: 8,
+  },
+  removeButtonText: {
+    fontSize: 18,
+    color: '#F44336',
+  },
+  addButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 24,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  button: {
+    height: 56,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+  },
+  buttonDisabled: {
+    backgroundColor: '#CCC',
+  },
+  buttonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFF',
+  },
+  backButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#666',
+  },
+});
+
+export default HotseatSetupScreen;
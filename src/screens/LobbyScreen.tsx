@@ -1,6 +1,6 @@
 // src/screens/LobbyScreen.tsx
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -14,21 +14,57 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { ref, update } from 'firebase/database';
-import { database } from '../config/firebase';
-import { RootStackParamList, Room } from '../types';
+import { RootStackParamList, Room, Player, PlayerProfile, GameSettings, DealingStrategy, EndCondition, TeamId } from '../types';
 import { useGame } from '../contexts/GameContext';
 import SalaItem from '../components/common/SalaItem';
 import ChatModal from '../components/common/ChatModal';
 import {
   createRoom,
   joinRoom,
-  listRoomsByDeck,
+  listenToPublicRooms,
   leaveRoom,
   listenToRoom,
+  updateRoomSettings,
+  setPlayerHandicap,
+  setPlayerTeams,
+  setPlayerReady,
+  startRoom,
 } from '../services/firebaseService';
 import { addBotToRoom, removeBotFromRoom, getBotPlayers } from '../services/botService';
+import { runRoomCleanup } from '../services/cleanupService';
+import { usePresence } from '../hooks/usePresence';
 import { validateRoomCode, formatRoomCode } from '../utils/roomUtils';
+import { areTeamsValid, assignTeams, resolveGameSettings, TEAM_NAMES } from '../utils/gameUtils';
+
+const MAX_HANDICAP = 3;
+
+const DEALING_OPTIONS: [DealingStrategy, string][] = [
+  ['equal-discard', 'Iguais (descarta sobra)'],
+  ['round-robin', 'Uma a uma'],
+  ['remainder-to-pot', 'Sobra no monte'],
+  ['handicap', 'Handicap'],
+];
+
+const getEndConditionOptions = (settings: GameSettings): [EndCondition, string][] => [
+  ['last-standing', 'Até sobrar um'],
+  ['max-rounds', `${settings.maxRounds} rodadas`],
+  ['time-limit', `${settings.timeLimitMinutes} minutos`],
+  ['card-target', `Primeiro a ${settings.targetCardCount} cartas`],
+];
+
+/**
+ * Times da sala, completando quem ainda não escolheu (ex.: entrou depois)
+ */
+const getRoomTeams = (room: Room): { [playerId: string]: TeamId } => {
+  const players = Object.values(room.players || {});
+  return assignTeams(
+    players.map(p => p.id),
+    Object.fromEntries(players.map(p => [p.id, p.team]))
+  );
+};
+
+// Salas públicas baixadas por vez; "Carregar mais" aumenta o limite
+const ROOMS_PAGE_SIZE = 10;
 
 type LobbyNavigationProp = StackNavigationProp<RootStackParamList, 'Lobby'>;
 
@@ -39,6 +75,8 @@ interface Props {
 const LobbyScreen: React.FC<Props> = ({ navigation }) => {
   const { state, setCurrentRoom } = useGame();
   const [publicRooms, setPublicRooms] = useState<Room[]>([]);
+  const [roomsLimit, setRoomsLimit] = useState(ROOMS_PAGE_SIZE);
+  const [hasMoreRooms, setHasMoreRooms] = useState(false);
   const [roomCode, setRoomCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -46,19 +84,24 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
 
   const roomListenerUnsubscribe = useRef<(() => void) | null>(null);
 
-  const loadPublicRooms = useCallback(async () => {
-    if (!state.selectedDeck) return;
-    try {
-      const rooms = await listRoomsByDeck(state.selectedDeck.id);
-      setPublicRooms(rooms);
-    } catch (error) {
-      console.error('Erro ao carregar salas:', error);
-    }
-  }, [state.selectedDeck]);
+  // O Lobby continua montado por baixo do GameScreen, então a presença vale para a partida também
+  usePresence(state.currentRoom, state.playerId);
+
+  const deckId = state.selectedDeck?.id;
 
+  // Aproveita a visita ao lobby para expirar salas abandonadas deste baralho
   useEffect(() => {
-    loadPublicRooms();
-  }, [loadPublicRooms]);
+    if (deckId) runRoomCleanup(deckId);
+  }, [deckId]);
+
+  // A lista acompanha em tempo real as salas que enchem, começam ou fecham
+  useEffect(() => {
+    if (!deckId) return;
+    return listenToPublicRooms(deckId, roomsLimit, (rooms, hasMore) => {
+      setPublicRooms(rooms);
+      setHasMoreRooms(hasMore);
+    });
+  }, [deckId, roomsLimit]);
 
   useEffect(() => {
     if (roomListenerUnsubscribe.current) {
@@ -69,18 +112,21 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
     const roomId = state.currentRoom?.id;
 
     if (roomId) {
+      const closeRoom = (message: string) => {
+        setCurrentRoom(null);
+        if (roomListenerUnsubscribe.current) {
+          roomListenerUnsubscribe.current();
+          roomListenerUnsubscribe.current = null;
+        }
+        Alert.alert('Aviso', message);
+      };
       roomListenerUnsubscribe.current = listenToRoom(roomId, (updatedRoom) => {
         if (!updatedRoom) {
-          setCurrentRoom(null);
-          if (roomListenerUnsubscribe.current) {
-            roomListenerUnsubscribe.current();
-            roomListenerUnsubscribe.current = null;
-          }
-          Alert.alert('Aviso', 'A sala foi encerrada.');
+          closeRoom('A sala foi encerrada.');
           return;
         }
         
-        if (updatedRoom.players && updatedRoom.players[state.playerNickname]) {
+        if (updatedRoom.players && updatedRoom.players[state.playerId]) {
             setCurrentRoom(updatedRoom);
             if (updatedRoom.status === 'playing') {
                 navigation.navigate('Game', { roomId: updatedRoom.id });
@@ -88,7 +134,7 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
         } else {
             setCurrentRoom(null);
         }
-      });
+      }, error => closeRoom(error.message));
     }
 
     return () => {
@@ -97,24 +143,30 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
         roomListenerUnsubscribe.current = null;
       }
     };
-  }, [state.currentRoom?.id, state.playerNickname, setCurrentRoom, navigation]);
+  }, [state.currentRoom?.id, state.playerId, setCurrentRoom, navigation]);
 
 
   const handleRefresh = async () => {
+    if (!deckId) return;
     setIsRefreshing(true);
-    await loadPublicRooms();
+    await runRoomCleanup(deckId);
     setIsRefreshing(false);
   };
 
+  const getPlayerProfile = (): PlayerProfile | null => {
+    if (!state.playerId || !state.playerNickname || !state.playerAvatar) return null;
+    return { id: state.playerId, nickname: state.playerNickname, avatar: state.playerAvatar };
+  };
+
   const handleCreateRoom = async (isPrivate: boolean = false) => {
-    if (!state.selectedDeck || !state.playerNickname || !state.playerAvatar) {
+    const player = getPlayerProfile();
+    if (!state.selectedDeck || !player) {
       Alert.alert('Erro', 'Dados do jogador ou baralho não encontrados.');
       return;
     }
     setIsLoading(true);
     try {
-      // CORREÇÃO: Passando o avatar do jogador
-      const room = await createRoom(state.playerNickname, state.playerAvatar, state.selectedDeck.id, state.selectedDeck.name, isPrivate);
+      const room = await createRoom(player, state.selectedDeck.id, state.selectedDeck.name, isPrivate);
       setCurrentRoom(room);
       Alert.alert('Sala Criada!', `Código da sala: ${room.code}\n\nCompartilhe este código com outros jogadores.`);
     } catch (error) {
@@ -125,7 +177,8 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
   };
 
   const handleJoinRoom = async (room?: Room) => {
-    if (!state.playerNickname || !state.playerAvatar) {
+    const player = getPlayerProfile();
+    if (!player) {
         Alert.alert('Erro', 'Dados do jogador não encontrados.');
         return;
     }
@@ -135,16 +188,14 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
       const codeToJoin = room?.code || roomCode;
 
       if (room) {
-        // CORREÇÃO: Passando o avatar do jogador
-        targetRoom = await joinRoom(codeToJoin, state.playerNickname, state.playerAvatar);
+        targetRoom = await joinRoom(codeToJoin, player);
       } else {
         if (!validateRoomCode(codeToJoin)) {
           Alert.alert('Erro', 'Código inválido. Use 6 caracteres (letras e números).');
           setIsLoading(false);
           return;
         }
-        // CORREÇÃO: Passando o avatar do jogador
-        targetRoom = await joinRoom(codeToJoin, state.playerNickname, state.playerAvatar);
+        targetRoom = await joinRoom(codeToJoin, player);
       }
       setCurrentRoom(targetRoom);
       setRoomCode('');
@@ -158,7 +209,7 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
   const handleLeaveRoom = async () => {
     if (!state.currentRoom) return;
     const { id: roomId } = state.currentRoom;
-    const playerNickname = state.playerNickname;
+    const playerId = state.playerId;
 
     if (roomListenerUnsubscribe.current) {
       roomListenerUnsubscribe.current();
@@ -168,7 +219,7 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
     setCurrentRoom(null);
     
     try {
-      await leaveRoom(roomId, playerNickname);
+      await leaveRoom(roomId, playerId);
     } catch (error) {
       console.error('Erro ao sair da sala no Firebase:', error);
     }
@@ -176,13 +227,9 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
 
   const toggleReadyStatus = async () => {
     if (!state.currentRoom) return;
-    const currentStatus = state.currentRoom.players[state.playerNickname]?.isReady || false;
+    const currentStatus = state.currentRoom.players[state.playerId]?.isReady || false;
     try {
-      const updates = {
-        [`rooms/${state.currentRoom.id}/players/${state.playerNickname}/isReady`]: !currentStatus,
-        [`rooms/${state.currentRoom.id}/lastActivity`]: new Date().toISOString(),
-      };
-      await update(ref(database), updates);
+      await setPlayerReady(state.currentRoom.id, state.playerId, !currentStatus);
     } catch (error) {
       console.error('Erro ao alterar status:', error);
     }
@@ -195,6 +242,10 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
       Alert.alert('Jogadores Insuficientes', 'É necessário pelo menos 2 jogadores para iniciar o jogo.');
       return;
     }
+    if (resolveGameSettings(state.currentRoom.settings).teamMode && !areTeamsValid(getRoomTeams(state.currentRoom))) {
+      Alert.alert('Times Incompletos', 'O modo em duplas precisa de 4 jogadores, 2 em cada time.');
+      return;
+    }
     const allReady = Object.values(state.currentRoom.players).every(player => player.isReady);
     if (!allReady) {
       Alert.alert( 'Confirmar Início', 'Nem todos os jogadores estão marcados como "prontos". Deseja iniciar mesmo assim?',
@@ -209,11 +260,7 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
     if (!state.currentRoom) return;
     setIsLoading(true);
     try {
-      const updates = {
-        [`rooms/${state.currentRoom.id}/status`]: 'playing',
-        [`rooms/${state.currentRoom.id}/lastActivity`]: new Date().toISOString(),
-      };
-      await update(ref(database), updates);
+      await startRoom(state.currentRoom.id);
     } catch (error) {
       console.error('Erro ao iniciar jogo:', error);
       Alert.alert('Erro', 'Não foi possível iniciar o jogo. Tente novamente.');
@@ -231,8 +278,8 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
     }
     setIsLoading(true);
     try {
-      const botName = await addBotToRoom(state.currentRoom.id);
-      console.log(`Bot ${botName} adicionado com sucesso`);
+      const botId = await addBotToRoom(state.currentRoom.id);
+      console.log(`Bot ${botId} adicionado com sucesso`);
     } catch (error: any) {
       Alert.alert('Erro', error.message || 'Não foi possível adicionar o bot');
     } finally {
@@ -248,26 +295,26 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
       return;
     }
     if (bots.length === 1) {
-      confirmRemoveBot(bots[0].nickname);
+      confirmRemoveBot(bots[0]);
       return;
     }
-    const botOptions = bots.map(bot => ({ text: bot.nickname, onPress: () => confirmRemoveBot(bot.nickname) }));
+    const botOptions = bots.map(bot => ({ text: bot.nickname, onPress: () => confirmRemoveBot(bot) }));
     Alert.alert('Remover Bot', 'Selecione qual bot deseja remover:', [...botOptions, { text: 'Cancelar', style: 'cancel' }]);
   };
 
-  const confirmRemoveBot = (botName: string) => {
-    Alert.alert('Confirmar Remoção', `Deseja remover o bot "${botName}"?`, [
+  const confirmRemoveBot = (bot: Player) => {
+    Alert.alert('Confirmar Remoção', `Deseja remover o bot "${bot.nickname}"?`, [
       { text: 'Cancelar', style: 'cancel' },
-      { text: 'Remover', style: 'destructive', onPress: () => executeRemoveBot(botName) },
+      { text: 'Remover', style: 'destructive', onPress: () => executeRemoveBot(bot.id) },
     ]);
   };
 
-  const executeRemoveBot = async (botName: string) => {
+  const executeRemoveBot = async (botId: string) => {
     if (!state.currentRoom) return;
     setIsLoading(true);
     try {
-      await removeBotFromRoom(state.currentRoom.id, botName);
-      console.log(`Bot ${botName} removido com sucesso`);
+      await removeBotFromRoom(state.currentRoom.id, botId);
+      console.log(`Bot ${botId} removido com sucesso`);
     } catch (error: any) {
       Alert.alert('Erro', error.message || 'Não foi possível remover o bot');
     } finally {
@@ -275,10 +322,52 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  const handleUpdateSettings = async (settings: Partial<GameSettings>) => {
+    if (!state.currentRoom) return;
+    try {
+      await updateRoomSettings(state.currentRoom.id, settings);
+    } catch (error: any) {
+      Alert.alert('Erro', error.message || 'Não foi possível alterar as regras');
+    }
+  };
+
+  const handleCycleHandicap = async (playerId: string, currentHandicap: number) => {
+    if (!state.currentRoom) return;
+    try {
+      await setPlayerHandicap(state.currentRoom.id, playerId, (currentHandicap + 1) % (MAX_HANDICAP + 1));
+    } catch (error: any) {
+      Alert.alert('Erro', error.message || 'Não foi possível alterar o handicap');
+    }
+  };
+
+  const handleToggleTeamMode = async (teamMode: boolean) => {
+    if (!state.currentRoom) return;
+    try {
+      await updateRoomSettings(state.currentRoom.id, { teamMode });
+      if (teamMode) {
+        await setPlayerTeams(state.currentRoom.id, getRoomTeams(state.currentRoom));
+      }
+    } catch (error: any) {
+      Alert.alert('Erro', error.message || 'Não foi possível alterar o formato da partida');
+    }
+  };
+
+  const handleSwitchTeam = async (playerId: string, currentTeam: TeamId) => {
+    if (!state.currentRoom) return;
+    try {
+      await setPlayerTeams(state.currentRoom.id, { [playerId]: currentTeam === 'blue' ? 'red' : 'blue' });
+    } catch (error: any) {
+      Alert.alert('Erro', error.message || 'Não foi possível trocar o time');
+    }
+  };
+
   if (state.currentRoom && state.currentRoom.players) {
     const players = state.currentRoom.players || {};
     const playerCount = Object.keys(players).length;
     const maxPlayers = state.currentRoom.maxPlayers || 4;
+    const isHost = state.currentRoom.hostId === state.playerId;
+    const settings = resolveGameSettings(state.currentRoom.settings);
+    const teams = getRoomTeams(state.currentRoom);
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.roomContainer}>
@@ -286,7 +375,7 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
             <View><Text style={styles.roomTitle}>Sala {state.currentRoom.code || 'N/A'}</Text><Text style={styles.roomSubtitle}>{state.currentRoom.deckName || 'Baralho não definido'}</Text></View>
             <TouchableOpacity style={styles.leaveButton} onPress={handleLeaveRoom}><Text style={styles.leaveButtonText}>Sair</Text></TouchableOpacity>
           </View>
-          {state.currentRoom.hostNickname === state.playerNickname && (
+          {state.currentRoom.hostId === state.playerId && (
             <View style={styles.botControlsSection}>
               <Text style={styles.sectionTitle}>Controles de Bot</Text>
               <View style={styles.botButtonsContainer}>
@@ -300,15 +389,86 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
               <Text style={styles.botInfo}>Bots: {getBotPlayers(state.currentRoom.players).length} | Humanos: {Object.values(state.currentRoom.players).filter(p => !p.isBot).length}</Text>
             </View>
           )}
+          <View style={styles.settingsSection}>
+            <Text style={styles.sectionTitle}>Regras da Sala</Text>
+            <View style={styles.settingsOptions}>
+              {([['free', 'Escolha livre'], ['top-card', 'Carta do topo']] as const).map(([mode, label]) => (
+                <TouchableOpacity key={mode} style={[styles.settingsOption, settings.playMode === mode && styles.settingsOptionActive]} onPress={() => handleUpdateSettings({ playMode: mode })} disabled={!isHost || isLoading}>
+                  <Text style={[styles.settingsOptionText, settings.playMode === mode && styles.settingsOptionTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.settingsLabel}>Formato</Text>
+            <View style={styles.settingsOptions}>
+              {([[false, 'Todos contra todos'], [true, 'Duplas (2x2)']] as const).map(([teamMode, label]) => (
+                <TouchableOpacity key={label} style={[styles.settingsOption, settings.teamMode === teamMode && styles.settingsOptionActive]} onPress={() => handleToggleTeamMode(teamMode)} disabled={!isHost || isLoading}>
+                  <Text style={[styles.settingsOptionText, settings.teamMode === teamMode && styles.settingsOptionTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {settings.teamMode && (
+              <TouchableOpacity style={[styles.settingsOption, styles.settingsToggle, settings.shareSpoils && styles.settingsOptionActive]} onPress={() => handleUpdateSettings({ shareSpoils: !settings.shareSpoils })} disabled={!isHost || isLoading}>
+                <Text style={[styles.settingsOptionText, settings.shareSpoils && styles.settingsOptionTextActive]}>{settings.shareSpoils ? '✓ ' : ''}Dividir cartas ganhas com o parceiro</Text>
+              </TouchableOpacity>
+            )}
+            <Text style={styles.settingsLabel}>Distribuição das cartas</Text>
+            <View style={styles.settingsOptionsWrap}>
+              {DEALING_OPTIONS.map(([strategy, label]) => (
+                <TouchableOpacity key={strategy} style={[styles.settingsOption, styles.settingsOptionSmall, settings.dealingStrategy === strategy && styles.settingsOptionActive]} onPress={() => handleUpdateSettings({ dealingStrategy: strategy })} disabled={!isHost || isLoading}>
+                  <Text style={[styles.settingsOptionText, settings.dealingStrategy === strategy && styles.settingsOptionTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.settingsLabel}>Cartas de quem desiste</Text>
+            <View style={styles.settingsOptions}>
+              {([['redistribute', 'Redistribuir'], ['discard', 'Descartar']] as const).map(([rule, label]) => (
+                <TouchableOpacity key={rule} style={[styles.settingsOption, settings.forfeitRule === rule && styles.settingsOptionActive]} onPress={() => handleUpdateSettings({ forfeitRule: rule })} disabled={!isHost || isLoading}>
+                  <Text style={[styles.settingsOptionText, settings.forfeitRule === rule && styles.settingsOptionTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.settingsLabel}>Quem cair da partida</Text>
+            <View style={styles.settingsOptions}>
+              {([['bot', 'Vira bot'], ['forfeit', 'Desiste']] as const).map(([rule, label]) => (
+                <TouchableOpacity key={rule} style={[styles.settingsOption, settings.disconnectRule === rule && styles.settingsOptionActive]} onPress={() => handleUpdateSettings({ disconnectRule: rule })} disabled={!isHost || isLoading}>
+                  <Text style={[styles.settingsOptionText, settings.disconnectRule === rule && styles.settingsOptionTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.settingsLabel}>Fim da partida</Text>
+            <View style={styles.settingsOptionsWrap}>
+              {getEndConditionOptions(settings).map(([condition, label]) => (
+                <TouchableOpacity key={condition} style={[styles.settingsOption, styles.settingsOptionSmall, settings.endCondition === condition && styles.settingsOptionActive]} onPress={() => handleUpdateSettings({ endCondition: condition })} disabled={!isHost || isLoading}>
+                  <Text style={[styles.settingsOptionText, settings.endCondition === condition && styles.settingsOptionTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
           <View style={styles.playersSection}>
             <Text style={styles.sectionTitle}>Jogadores ({playerCount}/{maxPlayers})</Text>
             <ScrollView style={styles.playersList}>
               {playerCount > 0 ? (
                 Object.values(players).map((player) => (
-                  <View key={player.nickname} style={styles.playerItem}>
+                  <View key={player.id} style={styles.playerItem}>
                     <Text style={styles.playerAvatar}>{player.avatar}</Text>
+                    {!player.isBot && (
+                      <Text style={player.connection === 'offline' ? styles.presenceOffline : styles.presenceOnline}>●</Text>
+                    )}
                     <Text style={styles.playerName}>{player.nickname}{player.isHost && ' 👑'}{player.isBot && ' 🤖'}</Text>
-                    <Text style={[styles.playerStatus, player.isReady && styles.playerReady]}>{player.isBot ? 'Bot' : (player.isReady ? 'Pronto' : 'Aguardando')}</Text>
+                    {!!state.currentRoom?.seriesScores?.[player.id] && (
+                      <Text style={styles.seriesScore}>🏆 {state.currentRoom.seriesScores[player.id]}</Text>
+                    )}
+                    {settings.dealingStrategy === 'handicap' && (
+                      <TouchableOpacity style={styles.handicapBadge} onPress={() => handleCycleHandicap(player.id, player.handicap || 0)} disabled={!isHost}>
+                        <Text style={styles.handicapText}>+{player.handicap || 0}</Text>
+                      </TouchableOpacity>
+                    )}
+                    {settings.teamMode && (
+                      <TouchableOpacity style={[styles.teamBadge, teams[player.id] === 'red' ? styles.teamBadgeRed : styles.teamBadgeBlue]} onPress={() => handleSwitchTeam(player.id, teams[player.id])} disabled={!isHost}>
+                        <Text style={styles.teamText}>{TEAM_NAMES[teams[player.id]]}</Text>
+                      </TouchableOpacity>
+                    )}
+                    <Text style={[styles.playerStatus, player.isReady && styles.playerReady]}>{player.isBot ? 'Bot' : player.connection === 'offline' ? 'Reconectando...' : (player.isReady ? 'Pronto' : 'Aguardando')}</Text>
                   </View>
                 ))
               ) : (<View style={styles.emptyPlayersContainer}><Text style={styles.emptyPlayersText}>Aguardando jogadores...</Text></View>)}
@@ -316,17 +476,17 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
           </View>
           <View style={styles.actionsContainer}>
             <TouchableOpacity style={styles.chatButton} onPress={() => setShowChatModal(true)}><Text style={styles.chatButtonText}>💬 Chat</Text></TouchableOpacity>
-            {state.currentRoom.hostNickname !== state.playerNickname && (
-              <TouchableOpacity style={[styles.readyButton, state.currentRoom.players[state.playerNickname]?.isReady && styles.readyButtonActive]} onPress={toggleReadyStatus}>
-                <Text style={[styles.readyButtonText, state.currentRoom.players[state.playerNickname]?.isReady && styles.readyButtonTextActive]}>{state.currentRoom.players[state.playerNickname]?.isReady ? '✓ Pronto' : 'Marcar como Pronto'}</Text>
+            {state.currentRoom.hostId !== state.playerId && (
+              <TouchableOpacity style={[styles.readyButton, state.currentRoom.players[state.playerId]?.isReady && styles.readyButtonActive]} onPress={toggleReadyStatus}>
+                <Text style={[styles.readyButtonText, state.currentRoom.players[state.playerId]?.isReady && styles.readyButtonTextActive]}>{state.currentRoom.players[state.playerId]?.isReady ? '✓ Pronto' : 'Marcar como Pronto'}</Text>
               </TouchableOpacity>
             )}
-            {state.currentRoom.hostNickname === state.playerNickname && (
+            {state.currentRoom.hostId === state.playerId && (
               <TouchableOpacity style={[styles.startButton, isLoading && styles.startButtonDisabled]} onPress={handleStartGame} disabled={isLoading}><Text style={styles.startButtonText}>{isLoading ? 'Iniciando...' : 'Iniciar Jogo'}</Text></TouchableOpacity>
             )}
           </View>
         </View>
-        <ChatModal visible={showChatModal} onClose={() => setShowChatModal(false)} roomId={state.currentRoom.id} playerNickname={state.playerNickname} />
+        <ChatModal visible={showChatModal} onClose={() => setShowChatModal(false)} roomId={state.currentRoom.id} playerId={state.playerId} playerNickname={state.playerNickname} />
       </SafeAreaView>
     );
   }
@@ -345,6 +505,7 @@ const LobbyScreen: React.FC<Props> = ({ navigation }) => {
         </View></View>
         <View style={styles.section}><Text style={styles.sectionTitle}>Salas Públicas ({publicRooms.length})</Text>
           {publicRooms.length === 0 ? (<View style={styles.emptyContainer}><Text style={styles.emptyText}>Nenhuma sala pública disponível.{'\n'}Seja o primeiro a criar uma!</Text></View>) : (publicRooms.map((room) => (<SalaItem key={room.id} room={room} onJoin={handleJoinRoom} isLoading={isLoading} />)))}
+          {hasMoreRooms && (<TouchableOpacity style={styles.loadMoreButton} onPress={() => setRoomsLimit(limit => limit + ROOMS_PAGE_SIZE)}><Text style={styles.loadMoreText}>Carregar mais</Text></TouchableOpacity>)}
         </View>
       </ScrollView>
       {isLoading && (<View style={styles.loadingOverlay}><ActivityIndicator size="large" color="#007AFF" /></View>)}
@@ -373,6 +534,8 @@ const styles = StyleSheet.create({
   joinButtonText: { fontSize: 16, fontWeight: '600', color: '#FFF' },
   emptyContainer: { padding: 32, alignItems: 'center' },
   emptyText: { fontSize: 16, color: '#999', textAlign: 'center', lineHeight: 24 },
+  loadMoreButton: { height: 44, marginTop: 12, borderRadius: 12, borderWidth: 1, borderColor: '#007AFF', justifyContent: 'center', alignItems: 'center' },
+  loadMoreText: { fontSize: 16, fontWeight: '600', color: '#007AFF' },
   loadingOverlay: { position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.3)', justifyContent: 'center', alignItems: 'center' },
   roomContainer: { flex: 1, padding: 24 },
   roomHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24, padding: 16, backgroundColor: '#FFF', borderRadius: 12 },
@@ -388,12 +551,31 @@ const styles = StyleSheet.create({
   botButtonDisabled: { backgroundColor: '#CCC', opacity: 0.6 },
   botButtonText: { fontSize: 14, fontWeight: '600', color: '#FFF' },
   botInfo: { fontSize: 12, color: '#666', textAlign: 'center', fontStyle: 'italic' },
+  settingsSection: { backgroundColor: '#FFF', borderRadius: 12, padding: 16, marginBottom: 16 },
+  settingsOptions: { flexDirection: 'row', gap: 12 },
+  settingsOption: { flex: 1, height: 40, borderRadius: 8, borderWidth: 2, borderColor: '#007AFF', justifyContent: 'center', alignItems: 'center' },
+  settingsOptionsWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  settingsOptionSmall: { flex: 0, flexBasis: '48%', height: 36 },
+  settingsLabel: { fontSize: 14, color: '#666', marginTop: 12, marginBottom: 8 },
+  settingsOptionActive: { backgroundColor: '#007AFF' },
+  settingsOptionText: { fontSize: 14, fontWeight: '600', color: '#007AFF' },
+  settingsOptionTextActive: { color: '#FFF' },
   playersSection: { flex: 1, backgroundColor: '#FFF', borderRadius: 12, padding: 16, marginBottom: 16 },
   playersList: { maxHeight: 200 },
   playerItem: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: '#F0F0F0' },
   playerAvatar: { fontSize: 20, marginRight: 12 },
+  presenceOnline: { fontSize: 10, color: '#4CAF50', marginRight: 6 },
+  presenceOffline: { fontSize: 10, color: '#BDBDBD', marginRight: 6 },
   playerName: { fontSize: 16, fontWeight: '600', color: '#333', flex: 1 },
   playerStatus: { fontSize: 14, color: '#999' },
+  handicapBadge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10, backgroundColor: '#FFF3E0', marginRight: 8 },
+  handicapText: { fontSize: 12, fontWeight: '600', color: '#FF9800' },
+  settingsToggle: { flex: 0, marginTop: 8 },
+  teamBadge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10, marginRight: 8 },
+  teamBadgeBlue: { backgroundColor: '#1976D2' },
+  teamBadgeRed: { backgroundColor: '#D32F2F' },
+  teamText: { fontSize: 12, fontWeight: '600', color: '#FFF' },
+  seriesScore: { fontSize: 13, fontWeight: '600', color: '#FF8F00', marginRight: 8 },
   playerReady: { color: '#4CAF50', fontWeight: '600' },
   emptyPlayersContainer: { padding: 20, alignItems: 'center', justifyContent: 'center' },
   emptyPlayersText: { fontSize: 14, color: '#999', fontStyle: 'italic' },
@@ -14,9 +14,18 @@ import {
   ScrollView, // CORREÇÃO: Importação adicionada
 } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RootStackParamList } from '../types';
-import { validateNickname, formatNickname } from '../utils/validation';
-import { saveUserData, getUserData } from '../services/storageService';
+import { RootStackParamList, Deck, Room } from '../types';
+import { useGame } from '../contexts/GameContext';
+import { validateNickname, formatNickname, AVATARS } from '../utils/validation';
+import {
+  saveUserData,
+  getUserData,
+  getPlayerId,
+  getActiveGame,
+  clearActiveGame,
+} from '../services/storageService';
+import { getRoom } from '../services/firebaseService';
+import { getDeckById } from '../data/decks';
 
 type LoginScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Login'>;
 
@@ -24,14 +33,35 @@ interface Props {
   navigation: LoginScreenNavigationProp;
 }
 
-const AVATARS = ['😊', '😎', '😂', '🥳', '🤯', '👽', '🦊', '👻'];
-
 const LoginScreen: React.FC<Props> = ({ navigation }) => {
+  const { setSelectedDeck, setPlayerId, setPlayerNickname, setPlayerAvatar, setCurrentRoom } = useGame();
   const [nickname, setNickname] = useState('');
   const [selectedAvatar, setSelectedAvatar] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isCheckingStorage, setIsCheckingStorage] = useState(true);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [resumableGame, setResumableGame] = useState<{ room: Room; deck: Deck; playerId: string } | null>(null);
+
+  /**
+   * Procura a partida online que estava em andamento quando o app foi fechado.
+   * Só é oferecida se a sala ainda estiver em jogo e com o jogador nela.
+   */
+  const checkActiveGame = useCallback(async () => {
+    try {
+      const activeGame = await getActiveGame();
+      if (!activeGame) return;
+      const playerId = await getPlayerId();
+      const room = activeGame.playerId === playerId ? await getRoom(activeGame.roomId) : null;
+      const deck = getDeckById(activeGame.deckId);
+      if (room?.status === 'playing' && room.players?.[playerId] && deck) {
+        setResumableGame({ room, deck, playerId });
+      } else {
+        await clearActiveGame();
+      }
+    } catch (error) {
+      console.error('Erro ao verificar partida em andamento:', error);
+    }
+  }, []);
 
   const checkExistingUser = useCallback(async () => {
     try {
@@ -39,13 +69,14 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
       if (savedUser?.nickname) {
         setNickname(savedUser.nickname);
         setSelectedAvatar(savedUser.avatar || null);
+        checkActiveGame();
       }
     } catch (error) {
       console.error('Erro ao verificar usuário existente:', error);
     } finally {
       setIsCheckingStorage(false);
     }
-  }, []);
+  }, [checkActiveGame]);
 
   useEffect(() => {
     checkExistingUser();
@@ -88,6 +119,25 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  const handleResumeGame = () => {
+    if (!resumableGame) return;
+    const { room, deck, playerId } = resumableGame;
+    setPlayerId(playerId);
+    setPlayerNickname(room.players[playerId]?.nickname || nickname);
+    setPlayerAvatar(room.players[playerId]?.avatar || selectedAvatar);
+    setSelectedDeck(deck);
+    setCurrentRoom(room);
+    // O Lobby fica por baixo para acompanhar a sala e a presença, como numa partida normal
+    navigation.reset({
+      index: 2,
+      routes: [
+        { name: 'DeckSelection' },
+        { name: 'Lobby' },
+        { name: 'Game', params: { roomId: room.id } },
+      ],
+    });
+  };
+
   const isFormValid = validateNickname(nickname).isValid && selectedAvatar !== null;
 
   if (isCheckingStorage) {
@@ -150,6 +200,15 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
           {validationError && (<Text style={styles.errorText}>{validationError}</Text>)}
         </View>
 
+        {resumableGame && (
+          <TouchableOpacity style={[styles.button, styles.resumeButton]} onPress={handleResumeGame}>
+            <Text style={styles.buttonText}>▶️ Voltar para a partida</Text>
+            <Text style={styles.resumeDetails}>
+              Sala {resumableGame.room.code} • {resumableGame.deck.name}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[styles.button, isFormValid ? styles.buttonEnabled : styles.buttonDisabled]}
           onPress={handleLogin}
@@ -280,6 +339,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFF',
   },
+  resumeButton: {
+    height: 64,
+    backgroundColor: '#4CAF50',
+  },
+  resumeDetails: {
+    fontSize: 13,
+    color: '#FFF',
+    marginTop: 2,
+  },
 });
 
 export default LoginScreen;
\ No newline at end of file
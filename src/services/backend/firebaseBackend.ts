@@ -0,0 +1,156 @@
+// src/services/backend/firebaseBackend.ts
+
+import {
+  Database,
+  ref,
+  push,
+  set,
+  get,
+  remove,
+  onValue,
+  query,
+  orderByChild,
+  equalTo,
+  startAt,
+  endAt,
+  limitToFirst,
+  update,
+  runTransaction,
+  increment,
+  serverTimestamp,
+  onDisconnect,
+} from 'firebase/database';
+import { Auth, signInAnonymously } from 'firebase/auth';
+import { GameBackend, Unsubscribe } from './types';
+
+/**
+ * Backend sobre o Firebase Realtime Database. As regras do banco exigem
+ * autenticação, então toda operação espera o login anônimo deste aparelho.
+ */
+export const createFirebaseBackend = (database: Database, auth: Auth): GameBackend => {
+  let signingIn: Promise<string> | null = null;
+
+  const signIn = (): Promise<string> => {
+    if (!signingIn) {
+      signingIn = (async () => {
+        // Espera a sessão salva ser restaurada para não criar outro usuário anônimo
+        await auth.authStateReady();
+        const user = auth.currentUser || (await signInAnonymously(auth)).user;
+        return user.uid;
+      })();
+      signingIn.catch(() => {
+        signingIn = null; // Tenta de novo na próxima operação
+      });
+    }
+    return signingIn;
+  };
+
+  // Listeners síncronos para quem chama, registrados assim que o login terminar
+  const listenWhenSignedIn = (listen: () => Unsubscribe): Unsubscribe => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+    signIn()
+      .then(() => {
+        if (!cancelled) unsubscribe = listen();
+      })
+      .catch(error => console.error('Erro ao autenticar:', error));
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  };
+
+  return {
+    getClientId: signIn,
+
+    get: async <T>(path: string) => {
+      await signIn();
+      const snapshot = await get(ref(database, path));
+      return snapshot.exists() ? (snapshot.val() as T) : null;
+    },
+
+    set: async (path, value) => {
+      await signIn();
+      await set(ref(database, path), value);
+    },
+
+    update: async updates => {
+      await signIn();
+      await update(ref(database), updates);
+    },
+
+    remove: async path => {
+      await signIn();
+      await remove(ref(database, path));
+    },
+
+    generateKey: path => {
+      const key = push(ref(database, path)).key;
+      if (!key) {
+        throw new Error('Erro ao gerar chave');
+      }
+      return key;
+    },
+
+    transaction: async <T>(path: string, updater: (current: T | null) => T | null | undefined) => {
+      await signIn();
+      const result = await runTransaction(ref(database, path), updater);
+      return {
+        committed: result.committed,
+        value: result.snapshot.exists() ? (result.snapshot.val() as T) : null,
+      };
+    },
+
+    subscribe: <T>(path: string, callback: (value: T | null) => void) => {
+      return listenWhenSignedIn(() => onValue(ref(database, path), snapshot => {
+        callback(snapshot.exists() ? (snapshot.val() as T) : null);
+      }));
+    },
+
+    queryByChild: async <T>(path: string, child: string, value: string | number | boolean) => {
+      await signIn();
+      const snapshot = await get(query(ref(database, path), orderByChild(child), equalTo(value)));
+      return snapshot.exists() ? (snapshot.val() as { [key: string]: T }) : {};
+    },
+
+    subscribeByChildRange: <T>(
+      path: string,
+      child: string,
+      range: { start: string; end: string; limit: number },
+      callback: (items: T[]) => void
+    ) => {
+      const rangeQuery = query(
+        ref(database, path),
+        orderByChild(child),
+        startAt(range.start),
+        endAt(range.end),
+        limitToFirst(range.limit)
+      );
+      return listenWhenSignedIn(() => onValue(rangeQuery, snapshot => {
+        // O val() de um objeto perde a ordem da consulta; o forEach a mantém
+        const items: T[] = [];
+        snapshot.forEach(item => {
+          items.push(item.val() as T);
+        });
+        callback(items);
+      }));
+    },
+
+    increment: delta => increment(delta),
+
+    serverTimestamp: () => serverTimestamp(),
+
+    onConnectionChange: callback => {
+      return onValue(ref(database, '.info/connected'), snapshot => {
+        callback(snapshot.val() === true);
+      });
+    },
+
+    onDisconnectUpdate: async (path, values) => {
+      await signIn();
+      await onDisconnect(ref(database, path)).update(values);
+    },
+
+    cancelOnDisconnect: path => onDisconnect(ref(database, path)).cancel(),
+  };
+};
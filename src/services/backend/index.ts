@@ -0,0 +1,26 @@
+// src/services/backend/index.ts
+
+import { GameBackend } from './types';
+
+export type { GameBackend, TransactionResult, Unsubscribe } from './types';
+export { createFirebaseBackend } from './firebaseBackend';
+export { createMemoryBackend, createMemoryStore } from './memoryBackend';
+export type { MemoryBackend, MemoryStore } from './memoryBackend';
+
+let activeBackend: GameBackend | null = null;
+
+/**
+ * Define o backend usado pelos serviços (Firebase no app, memória nos testes).
+ * Há um backend por carregamento dos serviços: para simular vários aparelhos,
+ * cada cliente de um MemoryStore usa a própria cópia dos módulos.
+ */
+export const setBackend = (backend: GameBackend): void => {
+  activeBackend = backend;
+};
+
+export const getBackend = (): GameBackend => {
+  if (!activeBackend) {
+    throw new Error('Backend não configurado: chame setBackend antes de usar os serviços');
+  }
+  return activeBackend;
+};
@@ -0,0 +1,346 @@
+// src/services/backend/memoryBackend.ts
+
+import { GameBackend, Unsubscribe } from './types';
+
+type Tree = { [key: string]: unknown };
+
+interface Listener {
+  clientId: string;
+  path: string[];
+  callback: (value: unknown) => void;
+  lastValue?: string;
+}
+
+const INCREMENT_KEY = '.sv';
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+const isObject = (value: unknown): value is Tree =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIncrement = (value: unknown): value is { [INCREMENT_KEY]: { increment: number } } =>
+  isObject(value) && isObject(value[INCREMENT_KEY]);
+
+const isTimestamp = (value: unknown): boolean =>
+  isObject(value) && value[INCREMENT_KEY] === 'timestamp';
+
+const readPath = (root: Tree, path: string[]): unknown => {
+  let node: unknown = root;
+  for (const key of path) {
+    if (node === null || typeof node !== 'object') return null;
+    node = (node as Tree)[key];
+  }
+  return node === undefined ? null : node;
+};
+
+/**
+ * Copia o valor no formato em que o Firebase o guardaria: sem undefined,
+ * sem filhos nulos e sem objetos/listas vazios. Resolve os incrementos.
+ */
+const normalize = (value: unknown, current: unknown, path: string[]): unknown => {
+  if (value === undefined) {
+    throw new Error(`Valor undefined em '${path.join('/')}'`);
+  }
+  if (value === null) return null;
+  if (isTimestamp(value)) {
+    return Date.now();
+  }
+  if (isIncrement(value)) {
+    return (typeof current === 'number' ? current : 0) + value[INCREMENT_KEY].increment;
+  }
+  if (Array.isArray(value)) {
+    const items = value
+      .map((item, index) => normalize(item, null, [...path, String(index)]));
+    return items.some(item => item !== null) ? items : null;
+  }
+  if (isObject(value)) {
+    const result: Tree = {};
+    Object.entries(value).forEach(([key, child]) => {
+      const normalized = normalize(child, isObject(current) ? current[key] : null, [...path, key]);
+      if (normalized !== null) {
+        result[key] = normalized;
+      }
+    });
+    return Object.keys(result).length > 0 ? result : null;
+  }
+  return value;
+};
+
+/**
+ * JSON com as chaves em ordem, para comparar valores como o servidor compara
+ */
+const serialize = (value: unknown): string => JSON.stringify(value, (_key, child) => {
+  if (!isObject(child)) return child;
+  return Object.fromEntries(Object.keys(child).sort().map(key => [key, child[key]]));
+});
+
+// Como no SDK: depois de tantas tentativas com o valor desatualizado, a transação desiste
+const MAX_TRANSACTION_RETRIES = 25;
+
+// Ida e volta ao "servidor": deixa os outros clientes agirem entre a leitura e a escrita
+const roundTrip = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+export interface MemoryBackend extends GameBackend {
+  /** Simula a queda (aplicando os onDisconnect agendados) ou a volta da conexão */
+  setConnected(connected: boolean): void;
+}
+
+/**
+ * Banco em memória compartilhado por vários clientes (aparelhos)
+ */
+export interface MemoryStore {
+  /** Cria um cliente com o próprio ID (o uid usado pelas regras) ligado a este banco */
+  connect(clientId: string): MemoryBackend;
+  /** Lê um caminho direto no banco, sem passar por nenhum cliente */
+  read<T>(path?: string): T | null;
+}
+
+/**
+ * Banco em memória com a mesma semântica de leitura, escrita e listeners do
+ * Realtime Database. Cada cliente criado com `connect` tem o próprio ID,
+ * conexão e onDisconnect; as transações de clientes diferentes competem
+ * entre si e são refeitas com o valor mais recente, como no servidor.
+ */
+export const createMemoryStore = (initialData: Tree = {}): MemoryStore => {
+  let root: Tree = (normalize(initialData, null, []) as Tree) || {};
+  const listeners = new Set<Listener>();
+  let lastKeyTime = 0;
+  let keyCounter = 0;
+
+  const snapshot = (path: string[]): unknown => {
+    const value = readPath(root, path);
+    return value === null ? null : JSON.parse(JSON.stringify(value));
+  };
+
+  // Entrega de forma assíncrona, como o SDK, e só quando o valor mudou
+  const notify = () => {
+    listeners.forEach(listener => {
+      const serialized = JSON.stringify(readPath(root, listener.path));
+      if (serialized === listener.lastValue) return;
+      listener.lastValue = serialized;
+      const value = JSON.parse(serialized);
+      Promise.resolve().then(() => {
+        if (listeners.has(listener)) listener.callback(value);
+      });
+    });
+  };
+
+  const write = (path: string[], value: unknown) => {
+    const normalized = normalize(value, readPath(root, path), path);
+    if (path.length === 0) {
+      root = (normalized as Tree) || {};
+      return;
+    }
+
+    // Cria os nós intermediários e depois apaga os que ficarem vazios
+    const parents: Tree[] = [root];
+    let node = root;
+    for (const key of path.slice(0, -1)) {
+      if (!isObject(node[key])) {
+        node[key] = {};
+      }
+      node = node[key] as Tree;
+      parents.push(node);
+    }
+
+    const lastKey = path[path.length - 1];
+    if (normalized === null) {
+      delete node[lastKey];
+    } else {
+      node[lastKey] = normalized;
+    }
+
+    for (let i = parents.length - 1; i > 0; i--) {
+      if (Object.keys(parents[i]).length > 0) break;
+      delete parents[i - 1][path[i - 1]];
+    }
+  };
+
+  const connect = (clientId: string): MemoryBackend => {
+    const connectionListeners = new Set<(connected: boolean) => void>();
+    const disconnectUpdates = new Map<string, { [key: string]: unknown }>();
+    let connected = true;
+
+    /**
+     * Valor que este cliente já conhece (de um listener ativo no caminho ou
+     * acima dele). Sem isso a primeira tentativa da transação recebe null.
+     */
+    const cachedValue = (path: string[]): unknown => {
+      for (const listener of Array.from(listeners)) {
+        const isAncestor = listener.clientId === clientId
+          && listener.lastValue !== undefined
+          && listener.path.length <= path.length
+          && listener.path.every((key, index) => path[index] === key);
+        if (isAncestor) {
+          const value = readPath({ value: JSON.parse(listener.lastValue as string) }, ['value', ...path.slice(listener.path.length)]);
+          return value === null ? null : JSON.parse(JSON.stringify(value));
+        }
+      }
+      return null;
+    };
+
+    const backend: MemoryBackend = {
+      getClientId: async () => clientId,
+
+      get: async <T>(path: string) => snapshot(splitPath(path)) as T | null,
+
+      set: async (path, value) => {
+        write(splitPath(path), value);
+        notify();
+      },
+
+      update: async updates => {
+        // Valida tudo antes de escrever para que a atualização seja atômica
+        Object.entries(updates).forEach(([path, value]) => normalize(value, null, splitPath(path)));
+        Object.entries(updates).forEach(([path, value]) => write(splitPath(path), value));
+        notify();
+      },
+
+      remove: async path => {
+        write(splitPath(path), null);
+        notify();
+      },
+
+      generateKey: () => {
+        const now = Date.now();
+        keyCounter = now === lastKeyTime ? keyCounter + 1 : 0;
+        lastKeyTime = now;
+        return `-${now.toString(36).padStart(9, '0')}${keyCounter.toString(36).padStart(4, '0')}`;
+      },
+
+      transaction: async <T>(path: string, updater: (current: T | null) => T | null | undefined) => {
+        const segments = splitPath(path);
+        // Como no servidor: o valor proposto só é gravado se o valor de partida
+        // ainda for o atual; senão o updater roda de novo com o valor novo
+        let current = cachedValue(segments);
+        for (let attempt = 0; attempt < MAX_TRANSACTION_RETRIES; attempt++) {
+          const next = updater(current === null ? null : JSON.parse(JSON.stringify(current)));
+          if (next === undefined) {
+            return { committed: false, value: current as T | null };
+          }
+          await roundTrip();
+          const latest = snapshot(segments);
+          if (serialize(latest) === serialize(current)) {
+            write(segments, next);
+            notify();
+            return { committed: true, value: snapshot(segments) as T | null };
+          }
+          current = latest;
+        }
+        throw new Error(`Transação em '${path}' não concluída: valor alterado por outros clientes`);
+      },
+
+      subscribe: <T>(path: string, callback: (value: T | null) => void): Unsubscribe => {
+        const listener: Listener = {
+          clientId,
+          path: splitPath(path),
+          callback: callback as (value: unknown) => void,
+        };
+        listeners.add(listener);
+        listener.lastValue = JSON.stringify(readPath(root, listener.path));
+        const initialValue = JSON.parse(listener.lastValue);
+        Promise.resolve().then(() => {
+          if (listeners.has(listener)) callback(initialValue);
+        });
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+
+      queryByChild: async <T>(path: string, child: string, value: string | number | boolean) => {
+        const node = snapshot(splitPath(path));
+        const matches: { [key: string]: T } = {};
+        if (isObject(node)) {
+          Object.entries(node).forEach(([key, item]) => {
+            if (isObject(item) && item[child] === value) {
+              matches[key] = item as T;
+            }
+          });
+        }
+        return matches;
+      },
+
+      subscribeByChildRange: <T>(
+        path: string,
+        child: string,
+        range: { start: string; end: string; limit: number },
+        callback: (items: T[]) => void
+      ): Unsubscribe => {
+        const select = (node: unknown): T[] => {
+          if (!isObject(node)) return [];
+          return Object.entries(node)
+            .filter(([, item]) => isObject(item) && typeof item[child] === 'string'
+              && (item[child] as string) >= range.start && (item[child] as string) <= range.end)
+            .sort(([keyA, a], [keyB, b]) => {
+              const valueA = (a as Tree)[child] as string;
+              const valueB = (b as Tree)[child] as string;
+              return valueA < valueB ? -1 : valueA > valueB ? 1 : keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+            })
+            .slice(0, range.limit)
+            .map(([, item]) => item as T);
+        };
+        // Escuta o caminho inteiro e só avisa quando o resultado da consulta muda
+        let lastResult: string | undefined;
+        return backend.subscribe<Tree>(path, node => {
+          const items = select(node);
+          const serialized = JSON.stringify(items);
+          if (serialized === lastResult) return;
+          lastResult = serialized;
+          callback(items);
+        });
+      },
+
+      increment: delta => ({ [INCREMENT_KEY]: { increment: delta } }),
+
+      serverTimestamp: () => ({ [INCREMENT_KEY]: 'timestamp' }),
+
+      onConnectionChange: callback => {
+        connectionListeners.add(callback);
+        const initialValue = connected;
+        Promise.resolve().then(() => {
+          if (connectionListeners.has(callback)) callback(initialValue);
+        });
+        return () => {
+          connectionListeners.delete(callback);
+        };
+      },
+
+      onDisconnectUpdate: async (path, values) => {
+        disconnectUpdates.set(path, { ...disconnectUpdates.get(path), ...values });
+      },
+
+      cancelOnDisconnect: async path => {
+        disconnectUpdates.delete(path);
+      },
+
+      setConnected: isConnected => {
+        if (isConnected === connected) return;
+        connected = isConnected;
+        if (!isConnected) {
+          disconnectUpdates.forEach((values, path) => {
+            Object.entries(values).forEach(([key, value]) => write(splitPath(`${path}/${key}`), value));
+          });
+          disconnectUpdates.clear();
+          notify();
+        }
+        connectionListeners.forEach(callback => {
+          Promise.resolve().then(() => callback(isConnected));
+        });
+      },
+    };
+
+    return backend;
+  };
+
+  return {
+    connect,
+    read: <T>(path: string = '') => snapshot(splitPath(path)) as T | null,
+  };
+};
+
+/**
+ * Banco em memória com um único cliente (ex.: partida offline)
+ */
+export const createMemoryBackend = (initialData: Tree = {}, clientId: string = 'local'): MemoryBackend => {
+  return createMemoryStore(initialData).connect(clientId);
+};
@@ -0,0 +1,60 @@
+// src/services/backend/types.ts
+
+export type Unsubscribe = () => void;
+
+export interface TransactionResult<T> {
+  committed: boolean;
+  value: T | null;
+}
+
+/**
+ * Operações de banco usadas pelos serviços de salas, partidas e chat.
+ * Os caminhos seguem o formato do Realtime Database ('rooms/abc/players').
+ */
+export interface GameBackend {
+  /** Identificador deste aparelho no banco (o uid usado pelas regras de acesso) */
+  getClientId(): Promise<string>;
+  /** Lê o valor de um caminho (null se não existir) */
+  get<T>(path: string): Promise<T | null>;
+  /** Substitui o valor de um caminho */
+  set(path: string, value: unknown): Promise<void>;
+  /** Escreve vários caminhos de uma vez; null apaga o caminho */
+  update(updates: { [path: string]: unknown }): Promise<void>;
+  /** Apaga um caminho e tudo abaixo dele */
+  remove(path: string): Promise<void>;
+  /** Gera uma chave nova, em ordem cronológica, para um filho do caminho */
+  generateKey(path: string): string;
+  /**
+   * Lê, altera e grava um caminho de forma atômica. O updater pode ser chamado
+   * mais de uma vez; retornar undefined cancela a transação.
+   */
+  transaction<T>(
+    path: string,
+    updater: (current: T | null) => T | null | undefined
+  ): Promise<TransactionResult<T>>;
+  /** Chama o callback com o valor atual e a cada mudança, como o onValue */
+  subscribe<T>(path: string, callback: (value: T | null) => void): Unsubscribe;
+  /** Filhos do caminho cujo campo `child` é igual a `value` */
+  queryByChild<T>(path: string, child: string, value: string | number | boolean): Promise<{ [key: string]: T }>;
+  /**
+   * Acompanha os primeiros `limit` filhos cujo campo `child` (texto) está entre
+   * `start` e `end`, em ordem crescente desse campo, como o onValue de uma
+   * consulta com orderByChild/startAt/endAt/limitToFirst
+   */
+  subscribeByChildRange<T>(
+    path: string,
+    child: string,
+    range: { start: string; end: string; limit: number },
+    callback: (items: T[]) => void
+  ): Unsubscribe;
+  /** Valor especial que soma `delta` ao número já gravado no caminho */
+  increment(delta: number): unknown;
+  /** Valor especial substituído pelo horário do servidor (ms) */
+  serverTimestamp(): unknown;
+  /** Acompanha a conexão deste cliente com o banco, como o `.info/connected` */
+  onConnectionChange(callback: (connected: boolean) => void): Unsubscribe;
+  /** Agenda no servidor uma atualização a ser aplicada quando este cliente cair */
+  onDisconnectUpdate(path: string, values: { [key: string]: unknown }): Promise<void>;
+  /** Cancela o que foi agendado com onDisconnectUpdate para o caminho */
+  cancelOnDisconnect(path: string): Promise<void>;
+}
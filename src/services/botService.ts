@@ -1,52 +1,64 @@
 // src/services/botService.ts
 
-import { ref, update, get } from 'firebase/database';
-import { database } from '../config/firebase';
-import { Player, GameState, Card } from '../types';
-import { generateBotName, selectBestCard, getBotThinkingTime } from '../utils/botUtils';
-import { playCard, selectAttribute } from './gameService';
+import { Player, GameState, Card, Room } from '../types';
+import { getDeckAttributes } from '../data/decks';
+import { generateBotName, selectBestCard, getBotThinkingTime, findBestAttribute } from '../utils/botUtils';
+import { getPendingCard, playCard, selectAttributeAndProcess } from './gameService';
+import { hasCommittedCard } from '../utils/gameEngine';
+import { generatePlayerId } from '../utils/random';
+import { getRoomListingKey } from '../utils/roomUtils';
+import { getBackend } from './backend';
 
 /**
- * Adiciona um bot à sala
+ * Adiciona um bot à sala e retorna o ID dele
  */
 export const addBotToRoom = async (roomId: string): Promise<string> => {
   try {
-    const roomRef = ref(database, `rooms/${roomId}`);
-    const roomSnapshot = await get(roomRef);
-    
-    if (!roomSnapshot.exists()) {
+    const backend = getBackend();
+    const room = await backend.get<Room>(`rooms/${roomId}`);
+    if (!room) {
       throw new Error('Sala não encontrada');
     }
 
-    const roomData = roomSnapshot.val();
-    const currentPlayers = roomData.players || {};
-    const playerCount = Object.keys(currentPlayers).length;
+    let botId = '';
+    let failure: string | null = null;
 
-    if (playerCount >= (roomData.maxPlayers || 4)) {
-      throw new Error('Sala lotada');
-    }
+    // Mesma conferência de vagas do joinRoom, feita de forma atômica
+    const result = await backend.transaction<Room['players']>(`rooms/${roomId}/players`, currentPlayers => {
+      failure = null;
+      if (!currentPlayers) return currentPlayers;
 
-    const existingPlayerNames = Object.keys(currentPlayers);
-    const botName = generateBotName(existingPlayerNames);
-
-    const botPlayer: Player = {
-      nickname: botName,
-      isHost: false,
-      joinedAt: new Date().toISOString(),
-      isReady: true,
-      isBot: true,
-      // Dificuldade removida, agora é o comportamento padrão
-      botDifficulty: 'medium', 
-      status: 'active',
-    };
+      if (Object.keys(currentPlayers).length >= (room.maxPlayers || 4)) {
+        failure = 'Sala lotada';
+        return undefined;
+      }
 
-    const updates = {
-      [`rooms/${roomId}/players/${botName}`]: botPlayer,
-      [`rooms/${roomId}/lastActivity`]: new Date().toISOString(),
-    };
+      botId = `bot-${generatePlayerId()}`;
+      const botPlayer: Player = {
+        id: botId,
+        nickname: generateBotName(Object.values(currentPlayers).map(p => p.nickname)),
+        isHost: false,
+        joinedAt: new Date().toISOString(),
+        isReady: true,
+        isBot: true,
+        // Dificuldade removida, agora é o comportamento padrão
+        botDifficulty: 'medium', 
+        status: 'active',
+      };
+
+      return { ...currentPlayers, [botId]: botPlayer };
+    });
+
+    if (failure) throw new Error(failure);
+    if (!result.committed || !result.value) {
+      throw new Error('Sala não encontrada');
+    }
 
-    await update(ref(database), updates);
-    return botName;
+    await backend.update({
+      [`rooms/${roomId}/listing`]: getRoomListingKey({ ...room, players: result.value }),
+      [`rooms/${roomId}/lastActivity`]: Date.now(),
+    });
+    return botId;
   } catch (error) {
     console.error('Erro ao adicionar bot:', error);
     throw error;
@@ -56,26 +68,28 @@ export const addBotToRoom = async (roomId: string): Promise<string> => {
 /**
  * Remove um bot da sala
  */
-export const removeBotFromRoom = async (roomId: string, botName: string): Promise<void> => {
+export const removeBotFromRoom = async (roomId: string, botId: string): Promise<void> => {
   try {
-    const playerRef = ref(database, `rooms/${roomId}/players/${botName}`);
-    const playerSnapshot = await get(playerRef);
-    
-    if (!playerSnapshot.exists()) {
+    const room = await getBackend().get<Room>(`rooms/${roomId}`);
+    const playerData = room?.players?.[botId];
+
+    if (!room || !playerData) {
       throw new Error('Jogador não encontrado');
     }
 
-    const playerData = playerSnapshot.val();
     if (!playerData.isBot) {
       throw new Error('Não é possível remover jogadores humanos');
     }
 
+    const players = { ...room.players };
+    delete players[botId];
     const updates = {
-      [`rooms/${roomId}/players/${botName}`]: null,
-      [`rooms/${roomId}/lastActivity`]: new Date().toISOString(),
+      [`rooms/${roomId}/players/${botId}`]: null,
+      [`rooms/${roomId}/listing`]: getRoomListingKey({ ...room, players }),
+      [`rooms/${roomId}/lastActivity`]: Date.now(),
     };
 
-    await update(ref(database), updates);
+    await getBackend().update(updates);
   } catch (error) {
     console.error('Erro ao remover bot:', error);
     throw error;
@@ -87,32 +101,31 @@ export const removeBotFromRoom = async (roomId: string, botName: string): Promis
  */
 export const executeBotAction = async (
   roomId: string,
-  botName: string,
+  botId: string,
   gameState: GameState,
   allCards: Card[]
 ): Promise<void> => {
   try {
-    const playerRef = ref(database, `rooms/${roomId}/players/${botName}`);
-    const playerSnapshot = await get(playerRef);
-    if (!playerSnapshot.exists()) return;
-    const botData = playerSnapshot.val();
-    if (!botData.isBot || botData.status === 'eliminated') return;
+    const botData = await getBackend().get<Player>(`rooms/${roomId}/players/${botId}`);
+    if (!botData || !botData.isBot || botData.status === 'eliminated') return;
 
     // A dificuldade agora é padrão, mas a lógica de tempo pode permanecer
-    const thinkingTime = getBotThinkingTime('medium'); 
+    const thinkingTime = getBotThinkingTime();
     
     await new Promise(resolve => setTimeout(resolve, thinkingTime));
 
-    if (gameState.gamePhase === 'selecting' && !gameState.currentRoundCards[botName]) {
-      await handleBotCardSelection(roomId, botName, gameState, allCards);
+    // A carta jogada só fica visível no banco depois da revelação
+    let botCardId: string | undefined = gameState.currentRoundCards?.[botId] || getPendingCard(roomId, botId);
+    if (gameState.gamePhase === 'selecting' && !hasCommittedCard(gameState, botId)) {
+      botCardId = await handleBotCardSelection(roomId, botId, gameState, allCards);
     }
     
-    if (gameState.gamePhase === 'revealing' && gameState.currentPlayer === botName && !gameState.selectedAttribute) {
-      await handleBotAttributeSelection(roomId, botName, gameState, allCards);
+    if (gameState.gamePhase === 'selecting' && gameState.currentPlayer === botId && !gameState.selectedAttribute && botCardId) {
+      await handleBotAttributeSelection(roomId, botId, botCardId, gameState, allCards);
     }
 
   } catch (error) {
-    console.error(`Erro na ação do bot ${botName}:`, error);
+    console.error(`Erro na ação do bot ${botId}:`, error);
   }
 };
 
@@ -121,20 +134,24 @@ export const executeBotAction = async (
  */
 const handleBotCardSelection = async (
   roomId: string,
-  botName: string,
+  botId: string,
   gameState: GameState,
   allCards: Card[]
-): Promise<void> => {
+): Promise<string | undefined> => {
   try {
-    const botCards = gameState.playerCards[botName] || [];
-    if (botCards.length === 0) return;
+    const botCards = gameState.playerCards[botId] || [];
+    if (botCards.length === 0) return undefined;
 
     // A dificuldade é omitida, usando a lógica padrão (aleatória) de selectBestCard
-    const decision = selectBestCard(botCards, allCards);
-    console.log(`🤖 Bot ${botName} selecionou carta ${decision.selectedCardId} - ${decision.reasoning}`);
-    await playCard(roomId, botName, decision.selectedCardId);
+    // No modo "carta do topo" o bot só pode jogar a primeira carta do monte
+    const playableCards = gameState.settings?.playMode === 'top-card' ? botCards.slice(0, 1) : botCards;
+    const decision = selectBestCard(playableCards, allCards, getDeckAttributes(gameState.deckId));
+    console.log(`🤖 Bot ${botId} selecionou carta ${decision.selectedCardId} - ${decision.reasoning}`);
+    await playCard(roomId, botId, decision.selectedCardId);
+    return decision.selectedCardId;
   } catch (error) {
-    console.error(`Erro na seleção de carta do bot ${botName}:`, error);
+    console.error(`Erro na seleção de carta do bot ${botId}:`, error);
+    return undefined;
   }
 };
 
@@ -143,33 +160,26 @@ const handleBotCardSelection = async (
  */
 const handleBotAttributeSelection = async (
   roomId: string,
-  botName: string,
+  botId: string,
+  botCardId: string,
   gameState: GameState,
   allCards: Card[],
 ): Promise<void> => {
   try {
-    const botCardId = gameState.currentRoundCards?.[botName];
-    if (!botCardId) return;
-
     const botCard = allCards.find(card => card.id === botCardId);
     if (!botCard) return;
 
-    // A lógica para escolher o melhor atributo já está correta
-    let bestAttribute = '';
-    let bestValue = -1;
-    
-    Object.entries(botCard.attributes).forEach(([attribute, value]) => {
-      if (value > bestValue) {
-        bestValue = value;
-        bestAttribute = attribute;
-      }
-    });
-    const selectedAttribute = bestAttribute;
+    // Escolhe o atributo em que a carta supera mais cartas do baralho
+    const { attribute: selectedAttribute } = findBestAttribute(
+      botCard,
+      allCards,
+      getDeckAttributes(gameState.deckId)
+    );
 
-    console.log(`🤖 Bot ${botName} selecionou o melhor atributo: ${selectedAttribute}`);
-    await selectAttribute(roomId, selectedAttribute);
+    console.log(`🤖 Bot ${botId} selecionou o melhor atributo: ${selectedAttribute}`);
+    await selectAttributeAndProcess(roomId, botId, selectedAttribute);
   } catch (error) {
-    console.error(`Erro na seleção de atributo do bot ${botName}:`, error);
+    console.error(`Erro na seleção de atributo do bot ${botId}:`, error);
   }
 };
 
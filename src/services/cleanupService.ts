@@ -0,0 +1,178 @@
+// src/services/cleanupService.ts
+
+import { Room } from '../types';
+import { getRoomListingKey } from '../utils/roomUtils';
+import { parseRoom } from '../utils/schema';
+import { getBackend } from './backend';
+
+const ROOMS_PATH = 'rooms';
+const GAMES_PATH = 'games';
+const HANDS_PATH = 'hands';
+const SECRETS_PATH = 'gameSecrets';
+const MOVES_PATH = 'gameMoves';
+const CHAT_PATH = 'chat';
+
+// Tempo sem atividade até a sala ser considerada abandonada, conforme a situação
+export const ROOM_INACTIVITY_LIMIT_MS: { [status in Room['status']]: number } = {
+  waiting: 30 * 60 * 1000,
+  playing: 20 * 60 * 1000,
+  finished: 10 * 60 * 1000,
+};
+// Com todos os jogadores humanos desconectados a sala sai da lista bem antes de expirar
+export const DISCONNECTED_ROOM_LIMIT_MS = 5 * 60 * 1000;
+// Intervalo mínimo entre duas limpezas disparadas pelo mesmo aparelho
+export const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+let lastCleanupAt = 0;
+
+// Salas antigas guardavam as datas como texto ISO
+const toMs = (date?: string | number): number =>
+  typeof date === 'number' ? date : date ? new Date(date).getTime() || 0 : 0;
+
+/**
+ * Última atividade conhecida da sala. Durante a partida as jogadas ficam só
+ * em `games/{id}`, então o horário da última jogada também conta.
+ */
+const getLastActivity = (room: Room, gameActivity?: number | null): number =>
+  Math.max(toMs(room.lastActivity), toMs(room.createdAt), gameActivity || 0);
+
+/**
+ * Diz se a sala pode ser apagada: sem jogadores humanos ou parada há mais
+ * tempo que o limite da situação dela, as mesmas condições das regras do banco.
+ */
+export const isRoomExpired = (room: Room, now: number = Date.now(), gameActivity?: number | null): boolean => {
+  // Quem um bot substituiu ainda pode voltar e conta como humano
+  const humans = Object.values(room.players || {}).filter(p => p.id && (!p.isBot || p.replacedByBot));
+  if (humans.length === 0) return true;
+
+  const idleFor = now - getLastActivity(room, gameActivity);
+  return idleFor >= ROOM_INACTIVITY_LIMIT_MS[room.status];
+};
+
+/**
+ * Diz se a sala foi abandonada: expirada ou com todos os jogadores humanos
+ * desconectados há alguns minutos. Essas saem da lista pública, mas só são
+ * apagadas quando expirarem.
+ */
+export const isRoomAbandoned = (room: Room, now: number = Date.now(), gameActivity?: number | null): boolean => {
+  if (isRoomExpired(room, now, gameActivity)) return true;
+
+  const humans = Object.values(room.players || {}).filter(p => p.id && (!p.isBot || p.replacedByBot));
+  const allDisconnected = humans.every(p => p.connection === 'offline');
+  const lastSeen = Math.max(...humans.map(p => p.disconnectedAt || 0));
+  return allDisconnected && now - lastSeen >= DISCONNECTED_ROOM_LIMIT_MS;
+};
+
+/**
+ * Apaga a sala junto com a partida (com mãos e jogadas) e o chat dela, de uma vez só
+ */
+export const deleteRoomData = async (roomId: string): Promise<void> => {
+  try {
+    await getBackend().update({
+      [`${ROOMS_PATH}/${roomId}`]: null,
+      [`${GAMES_PATH}/${roomId}`]: null,
+      [`${HANDS_PATH}/${roomId}`]: null,
+      [`${SECRETS_PATH}/${roomId}`]: null,
+      [`${MOVES_PATH}/${roomId}`]: null,
+      [`${CHAT_PATH}/${roomId}`]: null,
+    });
+  } catch (error) {
+    console.error('Erro ao apagar dados da sala:', error);
+    throw new Error('Não foi possível apagar a sala');
+  }
+};
+
+/**
+ * Sala no formato atual quando possível: na versão 1 os jogadores não tinham
+ * id e a sala pareceria vazia. As que não podem ser lidas seguem como estão.
+ */
+const toCurrentRoom = (roomId: string, room: Room): Room => {
+  try {
+    return parseRoom({ ...room, id: room.id || roomId });
+  } catch (error) {
+    return room;
+  }
+};
+
+/**
+ * Remove a sala se ela ainda estiver expirada. A conferência é refeita
+ * dentro de uma transação para não apagar uma sala que voltou a ter movimento.
+ */
+const expireRoom = async (roomId: string, now: number): Promise<boolean> => {
+  const backend = getBackend();
+  // Só o horário: o resto da partida é visível apenas para quem está na sala
+  const gameActivity = await backend.get<number>(`${GAMES_PATH}/${roomId}/lastActivity`);
+  const result = await backend.transaction<Room>(`${ROOMS_PATH}/${roomId}`, room => {
+    // Sem cache local a primeira tentativa recebe null; o Firebase repete com o valor do servidor
+    if (!room) return room;
+    return isRoomExpired(toCurrentRoom(roomId, room), now, gameActivity) ? null : undefined;
+  });
+  if (!result.committed) return false;
+  await deleteRoomData(roomId);
+  return true;
+};
+
+/**
+ * Salas gravadas antes da lista pública (versão 1) não têm a chave de
+ * listagem nem o próprio ID e nunca aparecem na busca. Quem passa pela
+ * limpeza grava os dois nas que estão abertas; depois disso o app mantém a
+ * chave como nas demais.
+ */
+const backfillListing = async (roomId: string, stored: Room, room: Room): Promise<void> => {
+  if (stored.listing) return;
+  const listing = getRoomListingKey(room);
+  if (listing) {
+    await getBackend().update({
+      [`${ROOMS_PATH}/${roomId}/id`]: roomId,
+      [`${ROOMS_PATH}/${roomId}/listing`]: listing,
+    });
+  }
+};
+
+/**
+ * Expira as salas paradas além do limite (de um baralho ou de todos) e apaga a partida
+ * e o chat de cada uma; as que continuam abertas ganham a chave de listagem
+ * se ainda não a tiverem. Retorna os IDs das salas removidas.
+ */
+export const cleanupAbandonedRooms = async (
+  deckId?: string,
+  now: number = Date.now()
+): Promise<string[]> => {
+  const backend = getBackend();
+  const rooms = deckId
+    ? await backend.queryByChild<Room>(ROOMS_PATH, 'deckId', deckId)
+    : (await backend.get<{ [roomId: string]: Room }>(ROOMS_PATH)) || {};
+
+  const removed: string[] = [];
+  for (const [roomId, stored] of Object.entries(rooms)) {
+    const room = toCurrentRoom(roomId, stored);
+    // A atividade da partida só pode salvar a sala, então ela é lida apenas para as suspeitas
+    if (!isRoomExpired(room, now)) {
+      await backfillListing(roomId, stored, room).catch(error => {
+        console.error(`Erro ao listar sala ${roomId}:`, error);
+      });
+      continue;
+    }
+    try {
+      if (await expireRoom(roomId, now)) removed.push(roomId);
+    } catch (error) {
+      console.error(`Erro ao expirar sala ${roomId}:`, error);
+    }
+  }
+  return removed;
+};
+
+/**
+ * Limpeza feita pelos próprios aparelhos: cada um varre as salas do baralho
+ * que está vendo, no máximo uma vez a cada CLEANUP_INTERVAL_MS.
+ */
+export const runRoomCleanup = async (deckId: string): Promise<void> => {
+  const now = Date.now();
+  if (now - lastCleanupAt < CLEANUP_INTERVAL_MS) return;
+  lastCleanupAt = now;
+  try {
+    await cleanupAbandonedRooms(deckId, now);
+  } catch (error) {
+    console.error('Erro na limpeza de salas abandonadas:', error);
+  }
+};
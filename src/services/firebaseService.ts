@@ -1,21 +1,13 @@
 // src/services/firebaseService.ts
 
-import { 
-  ref, 
-  push, 
-  set, 
-  get, 
-  remove, 
-  onValue, 
-  off, 
-  query, 
-  orderByChild, 
-  equalTo,
-  update
-} from 'firebase/database';
-import { database } from '../config/firebase';
-import { Room, Player, ChatMessage } from '../types';
-import { generateRoomCode } from '../utils/roomUtils';
+import { Room, Player, PlayerProfile, ChatMessage, GameSettings, TeamId } from '../types';
+import { generateRoomCode, getRoomListingKey, withListing } from '../utils/roomUtils';
+import { DEFAULT_GAME_SETTINGS } from '../utils/gameUtils';
+import { isGameRuleError } from '../utils/gameErrors';
+import { isSchemaError, parseRoom, ROOM_SCHEMA_VERSION, SchemaError } from '../utils/schema';
+import { clearGame, forfeitGame } from './gameService';
+import { getBackend, Unsubscribe } from './backend';
+import { deleteRoomData, isRoomAbandoned } from './cleanupService';
 
 const ROOMS_PATH = 'rooms';
 const CHAT_PATH = 'chat';
@@ -24,47 +16,47 @@ const CHAT_PATH = 'chat';
  * Cria uma nova sala no Firebase
  */
 export const createRoom = async (
-  hostNickname: string,
-  hostAvatar: string, // NOVO
+  host: PlayerProfile,
   deckId: string,
   deckName: string,
   isPrivate: boolean = false
 ): Promise<Room> => {
   try {
+    const backend = getBackend();
     const roomCode = generateRoomCode();
-    const roomRef = push(ref(database, ROOMS_PATH));
-    const roomId = roomRef.key;
-    
-    if (!roomId) {
-      throw new Error('Erro ao gerar ID da sala');
-    }
+    const roomId = backend.generateKey(ROOMS_PATH);
+    const clientId = await backend.getClientId();
 
     const hostPlayer: Player = {
-      nickname: hostNickname,
-      avatar: hostAvatar, // NOVO
+      id: host.id,
+      nickname: host.nickname,
+      avatar: host.avatar,
       isHost: true,
       joinedAt: new Date().toISOString(),
       isReady: true,
       status: 'active',
     };
 
-    const newRoom: Room = {
+    const newRoom: Room = withListing({
+      schemaVersion: ROOM_SCHEMA_VERSION,
       id: roomId,
       code: roomCode,
-      hostNickname,
+      hostId: host.id,
       deckId,
       deckName,
       players: {
-        [hostNickname]: hostPlayer,
+        [host.id]: hostPlayer,
       },
+      members: { [clientId]: host.id },
       status: 'waiting',
       isPrivate,
       maxPlayers: 4,
+      settings: DEFAULT_GAME_SETTINGS,
       createdAt: new Date().toISOString(),
-      lastActivity: new Date().toISOString(),
-    };
+      lastActivity: Date.now(),
+    });
 
-    await set(roomRef, newRoom);
+    await backend.set(`${ROOMS_PATH}/${roomId}`, newRoom);
     return newRoom;
   } catch (error) {
     console.error('Erro ao criar sala:', error);
@@ -72,57 +64,82 @@ export const createRoom = async (
   }
 };
 
+/**
+ * Motivo pelo qual o jogador não pode entrar na sala agora (null se puder)
+ */
+const getJoinFailure = (room: Room, playerId: string): string | null => {
+  if (room.status !== 'waiting') return 'Esta sala já iniciou o jogo';
+  if (Object.keys(room.players || {}).length >= room.maxPlayers) return 'Sala lotada';
+  if (room.players?.[playerId]) return 'Você já está nesta sala';
+  return null;
+};
+
 /**
  * Entra em uma sala existente
  */
 export const joinRoom = async (
   roomCode: string,
-  playerNickname: string,
-  playerAvatar: string // NOVO
+  player: PlayerProfile
 ): Promise<Room> => {
   try {
-    const roomsRef = ref(database, ROOMS_PATH);
-    const roomsQuery = query(roomsRef, orderByChild('code'), equalTo(roomCode.toUpperCase()));
-    const snapshot = await get(roomsQuery);
-
-    if (!snapshot.exists()) {
-      throw new Error('Sala não encontrada');
-    }
-
-    const rooms = snapshot.val();
+    const backend = getBackend();
+    const rooms = await backend.queryByChild<Room>(ROOMS_PATH, 'code', roomCode.toUpperCase());
     const roomId = Object.keys(rooms)[0];
-    const room: Room = rooms[roomId];
 
-    if (room.status !== 'waiting') {
-      throw new Error('Esta sala já iniciou o jogo');
-    }
-
-    if (Object.keys(room.players).length >= room.maxPlayers) {
-      throw new Error('Sala lotada');
-    }
-
-    if (room.players[playerNickname]) {
-      throw new Error('Já existe um jogador com este nickname na sala');
+    if (!roomId) {
+      throw new Error('Sala não encontrada');
     }
+    const clientId = await backend.getClientId();
 
     const newPlayer: Player = {
-      nickname: playerNickname,
-      avatar: playerAvatar, // NOVO
+      id: player.id,
+      nickname: player.nickname,
+      avatar: player.avatar,
       isHost: false,
       joinedAt: new Date().toISOString(),
       isReady: false,
       status: 'active',
     };
 
-    const updates = {
-      [`${ROOMS_PATH}/${roomId}/players/${playerNickname}`]: newPlayer,
-      [`${ROOMS_PATH}/${roomId}/lastActivity`]: new Date().toISOString(),
-    };
+    // O aparelho se registra como membro antes de ocupar a vaga: as regras só
+    // deixam quem entra acrescentar o jogador ligado ao próprio aparelho
+    const room = rooms[roomId];
+    const joinFailure = getJoinFailure(room, player.id);
+    if (joinFailure) throw new Error(joinFailure);
+    const isNewMember = room.members?.[clientId] !== player.id;
+    if (isNewMember) {
+      await backend.set(`${ROOMS_PATH}/${roomId}/members/${clientId}`, player.id);
+    }
 
-    await update(ref(database), updates);
+    // Vagas e jogadores são conferidos dentro da transação: duas entradas
+    // simultâneas não conseguem passar do limite da sala
+    let failure: string | null = null;
+    const result = await backend.transaction<Room['players']>(`${ROOMS_PATH}/${roomId}/players`, players => {
+      failure = null;
+      if (!players) return players;
+      failure = getJoinFailure({ ...room, players }, player.id);
+      if (failure) return undefined;
+      return { ...players, [player.id]: newPlayer };
+    });
+
+    if (failure || !result.committed || !result.value) {
+      if (isNewMember) {
+        await backend.remove(`${ROOMS_PATH}/${roomId}/members/${clientId}`);
+      }
+      throw new Error(failure || 'Sala não encontrada');
+    }
 
-    const updatedRoom = { ...room, players: { ...room.players, [playerNickname]: newPlayer } };
-    return updatedRoom;
+    const joinedRoom = withListing({
+      ...room,
+      players: result.value,
+      members: { ...room.members, [clientId]: player.id },
+      lastActivity: Date.now(),
+    });
+    await backend.update({
+      [`${ROOMS_PATH}/${roomId}/listing`]: joinedRoom.listing || null,
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: joinedRoom.lastActivity,
+    });
+    return joinedRoom;
   } catch (error) {
     console.error('Erro ao entrar na sala:', error);
     throw error;
@@ -130,62 +147,200 @@ export const joinRoom = async (
 };
 
 /**
- * Lista salas públicas por baralho
+ * Atualiza as regras da sala (apenas antes do início da partida)
  */
-export const listRoomsByDeck = async (deckId: string): Promise<Room[]> => {
+export const updateRoomSettings = async (
+  roomId: string,
+  settings: Partial<GameSettings>
+): Promise<void> => {
   try {
-    const roomsRef = ref(database, ROOMS_PATH);
-    const roomsQuery = query(roomsRef, orderByChild('deckId'), equalTo(deckId));
-    const snapshot = await get(roomsQuery);
+    const updates: { [path: string]: unknown } = {
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: Date.now(),
+    };
+    Object.entries(settings).forEach(([key, value]) => {
+      updates[`${ROOMS_PATH}/${roomId}/settings/${key}`] = value;
+    });
+    await getBackend().update(updates);
+  } catch (error) {
+    console.error('Erro ao atualizar regras da sala:', error);
+    throw new Error('Não foi possível atualizar as regras da sala');
+  }
+};
 
-    if (!snapshot.exists()) {
-      return [];
-    }
+/**
+ * Define o handicap de um jogador (usado na distribuição 'handicap')
+ */
+export const setPlayerHandicap = async (
+  roomId: string,
+  playerId: string,
+  handicap: number
+): Promise<void> => {
+  try {
+    const updates = {
+      [`${ROOMS_PATH}/${roomId}/players/${playerId}/handicap`]: handicap,
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: Date.now(),
+    };
+    await getBackend().update(updates);
+  } catch (error) {
+    console.error('Erro ao definir handicap:', error);
+    throw new Error('Não foi possível definir o handicap');
+  }
+};
 
-    const rooms = snapshot.val();
-    
-    const publicRooms = Object.values(rooms as { [key: string]: Room })
-      .filter(room => !room.isPrivate && room.status === 'waiting')
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+/**
+ * Marca ou desmarca o jogador como pronto
+ */
+export const setPlayerReady = async (
+  roomId: string,
+  playerId: string,
+  isReady: boolean
+): Promise<void> => {
+  try {
+    const updates = {
+      [`${ROOMS_PATH}/${roomId}/players/${playerId}/isReady`]: isReady,
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: Date.now(),
+    };
+    await getBackend().update(updates);
+  } catch (error) {
+    console.error('Erro ao alterar status:', error);
+    throw new Error('Não foi possível alterar o status');
+  }
+};
 
-    return publicRooms;
+/**
+ * Muda a sala para 'playing'; o GameScreen distribui as cartas ao abrir
+ */
+export const startRoom = async (roomId: string): Promise<void> => {
+  try {
+    const updates = {
+      [`${ROOMS_PATH}/${roomId}/status`]: 'playing',
+      [`${ROOMS_PATH}/${roomId}/listing`]: null,
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: Date.now(),
+    };
+    await getBackend().update(updates);
   } catch (error) {
-    console.error('Erro ao listar salas:', error);
-    return [];
+    console.error('Erro ao iniciar jogo:', error);
+    throw new Error('Não foi possível iniciar o jogo');
   }
 };
 
+/**
+ * Define o time de cada jogador no modo em duplas
+ */
+export const setPlayerTeams = async (
+  roomId: string,
+  teams: { [playerId: string]: TeamId }
+): Promise<void> => {
+  try {
+    const updates: { [path: string]: unknown } = {
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: Date.now(),
+    };
+    Object.entries(teams).forEach(([playerId, team]) => {
+      updates[`${ROOMS_PATH}/${roomId}/players/${playerId}/team`] = team;
+    });
+    await getBackend().update(updates);
+  } catch (error) {
+    console.error('Erro ao definir times:', error);
+    throw new Error('Não foi possível definir os times');
+  }
+};
+
+/**
+ * Busca uma sala pelo ID (null se ela não existir mais)
+ */
+export const getRoom = async (roomId: string): Promise<Room | null> => {
+  try {
+    const room = await getBackend().get<Room>(`${ROOMS_PATH}/${roomId}`);
+    return room && parseRoom(room);
+  } catch (error) {
+    console.error('Erro ao buscar sala:', error);
+    throw new Error('Não foi possível buscar a sala');
+  }
+};
+
+/**
+ * Acompanha as salas públicas abertas de um baralho, das mais cheias para as
+ * mais vazias e, com as mesmas vagas, das mais novas para as mais antigas.
+ * Só as primeiras `limit` salas são baixadas; aumente o limite para paginar.
+ * `hasMore` conta as salas baixadas antes de tirar as abandonadas e as
+ * incompatíveis: a página pode vir menor que o limite e ainda haver outra.
+ */
+export const listenToPublicRooms = (
+  deckId: string,
+  limit: number,
+  callback: (rooms: Room[], hasMore: boolean) => void
+): Unsubscribe => {
+  const range = { start: `${deckId}|`, end: `${deckId}|\uf8ff`, limit };
+  return getBackend().subscribeByChildRange<Room>(ROOMS_PATH, 'listing', range, rooms => {
+    const publicRooms = rooms
+      .flatMap(room => {
+        try {
+          return [parseRoom(room)];
+        } catch (error) {
+          return []; // Sala de outra versão do app ou incompleta: fica fora da lista
+        }
+      })
+      .filter(room => !isRoomAbandoned(room));
+    callback(publicRooms, rooms.length >= limit);
+  });
+};
+
 /**
  * Sai da sala atual
  */
-export const leaveRoom = async (roomId: string, playerNickname: string): Promise<void> => {
+export const leaveRoom = async (roomId: string, playerId: string): Promise<void> => {
   try {
-    const roomRef = ref(database, `${ROOMS_PATH}/${roomId}`);
-    const snapshot = await get(roomRef);
+    const backend = getBackend();
+    const room = await backend.get<Room>(`${ROOMS_PATH}/${roomId}`);
     
-    if (!snapshot.exists()) {
+    if (!room) {
       return;
     }
 
-    const room: Room = snapshot.val();
+    // Sair com a partida em andamento conta como desistência
+    if (room.status === 'playing') {
+      await forfeitGame(roomId, playerId).catch(error => {
+        if (!isGameRuleError(error)) throw error; // Já eliminado ou partida encerrada
+      });
+    }
 
-    await remove(ref(database, `${ROOMS_PATH}/${roomId}/players/${playerNickname}`));
+    // Sem isso o onDisconnect agendado recriaria o jogador depois da saída
+    await backend.cancelOnDisconnect(`${ROOMS_PATH}/${roomId}/players/${playerId}`);
 
-    const remainingPlayers = Object.keys(room.players).filter(p => p !== playerNickname);
+    const remainingPlayers = Object.keys(room.players).filter(p => p !== playerId);
+    // Quem um bot substituiu ainda pode voltar e conta como pessoa
+    const remainingHumans = remainingPlayers.filter(p => !room.players[p].isBot || room.players[p].replacedByBot);
 
-    if (remainingPlayers.length === 0) {
-      await remove(roomRef);
+    // Só com bots a sala não tem mais quem jogue: some junto com a partida e o chat
+    if (remainingHumans.length === 0) {
+      await deleteRoomData(roomId);
       return;
     }
 
-    if (room.hostNickname === playerNickname) {
-      const newHostNickname = remainingPlayers[0];
-      const updates = {
-        [`${ROOMS_PATH}/${roomId}/hostNickname`]: newHostNickname,
-        [`${ROOMS_PATH}/${roomId}/players/${newHostNickname}/isHost`]: true,
-        [`${ROOMS_PATH}/${roomId}/lastActivity`]: new Date().toISOString(),
-      };
-      await update(ref(database), updates);
+    const players = { ...room.players };
+    delete players[playerId];
+    const updates: { [path: string]: unknown } = {
+      [`${ROOMS_PATH}/${roomId}/players/${playerId}`]: null,
+      [`${ROOMS_PATH}/${roomId}/listing`]: getRoomListingKey({ ...room, players }),
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: Date.now(),
+    };
+    if (room.hostId === playerId) {
+      // As regras só aceitam uma pessoa como anfitrião; de preferência uma que esteja jogando
+      const newHostId = remainingHumans.find(p => !room.players[p].isBot) || remainingHumans[0];
+      updates[`${ROOMS_PATH}/${roomId}/hostId`] = newHostId;
+      updates[`${ROOMS_PATH}/${roomId}/players/${newHostId}/isHost`] = true;
+    }
+    await backend.update(updates);
+
+    // Quem saiu não bloqueia a revanche dos que ficaram
+    if (room.status === 'finished') {
+      await voteRematch(roomId);
+    }
+
+    // Por último: as regras só deixam membros da sala escreverem nela
+    const clientId = await backend.getClientId();
+    if (room.members?.[clientId] === playerId) {
+      await backend.remove(`${ROOMS_PATH}/${roomId}/members/${clientId}`);
     }
   } catch (error) {
     console.error('Erro ao sair da sala:', error);
@@ -193,20 +348,89 @@ export const leaveRoom = async (roomId: string, playerNickname: string): Promise
 };
 
 /**
- * Escuta mudanças em uma sala específica
+ * Registra o pedido de revanche e, quando todos os jogadores humanos da sala
+ * tiverem pedido, devolve a sala para 'waiting' com os mesmos jogadores e bots.
+ * Sem `playerId`, apenas confere se os votos já bastam (ex.: alguém saiu).
+ * Retorna true se a sala foi reiniciada.
+ */
+export const voteRematch = async (roomId: string, playerId?: string): Promise<boolean> => {
+  try {
+    const backend = getBackend();
+    const roomPath = `${ROOMS_PATH}/${roomId}`;
+
+    if (playerId) {
+      const room = await backend.get<Room>(roomPath);
+      if (room?.status !== 'finished' || !room.players?.[playerId]) return false;
+      await backend.set(`${roomPath}/rematchVotes/${playerId}`, true);
+    }
+
+    const room = await backend.get<Room>(roomPath);
+    if (!room || room.status !== 'finished') return false;
+    const votes = room.rematchVotes || {};
+    const humans = Object.values(room.players || {}).filter(p => !p.isBot);
+    if (humans.length === 0 || !humans.every(p => votes[p.id])) return false;
+
+    // Todos voltam ao jogo enquanto a partida ainda consta como encerrada,
+    // que é quando as regras deixam qualquer membro fazer isso
+    const resetPlayers: { [path: string]: unknown } = {};
+    Object.keys(room.players).forEach(key => {
+      resetPlayers[`${roomPath}/players/${key}/status`] = 'active';
+      resetPlayers[`${roomPath}/players/${key}/isReady`] = true;
+    });
+    await backend.update(resetPlayers);
+
+    // Só um dos aparelhos reabre a sala, mesmo que vários confiram os votos ao mesmo tempo
+    const result = await backend.transaction<Room['status']>(`${roomPath}/status`, status => {
+      if (!status) return status;
+      return status === 'finished' ? 'waiting' : undefined;
+    });
+    if (!result.committed || result.value !== 'waiting') return false;
+
+    const reopened = withListing({ ...room, status: 'waiting', lastActivity: Date.now() });
+    await backend.update({
+      [`${roomPath}/rematchVotes`]: null,
+      [`${roomPath}/listing`]: reopened.listing || null,
+      [`${roomPath}/lastActivity`]: reopened.lastActivity,
+    });
+
+    // A partida anterior é apagada para que o próximo startGame distribua um jogo novo
+    await clearGame(roomId);
+    return true;
+  } catch (error) {
+    console.error('Erro ao pedir revanche:', error);
+    throw new Error('Não foi possível pedir a revanche');
+  }
+};
+
+/**
+ * Escuta mudanças em uma sala específica. Salas de versões antigas chegam
+ * já atualizadas; as que esta versão do app não consegue usar vão para
+ * `onError` (ou chegam como null, se ele não for informado).
  */
 export const listenToRoom = (
   roomId: string,
-  callback: (room: Room | null) => void
+  callback: (room: Room | null) => void,
+  onError?: (error: SchemaError) => void
 ): (() => void) => {
-  const roomRef = ref(database, `${ROOMS_PATH}/${roomId}`);
-  
-  const unsubscribe = onValue(roomRef, (snapshot) => {
-    const room = snapshot.exists() ? snapshot.val() : null;
-    callback(room);
+  return getBackend().subscribe<Room>(`${ROOMS_PATH}/${roomId}`, room => {
+    if (!room) {
+      callback(null);
+      return;
+    }
+    let parsedRoom: Room;
+    try {
+      parsedRoom = parseRoom(room);
+    } catch (error) {
+      console.error('Sala incompatível:', error);
+      if (onError && isSchemaError(error)) {
+        onError(error);
+      } else {
+        callback(null);
+      }
+      return;
+    }
+    callback(parsedRoom);
   });
-
-  return () => off(roomRef, 'value', unsubscribe);
 };
 
 /**
@@ -214,21 +438,23 @@ export const listenToRoom = (
  */
 export const sendChatMessage = async (
   roomId: string,
+  playerId: string,
   nickname: string,
   message: string
 ): Promise<void> => {
   try {
-    const chatRef = ref(database, `${CHAT_PATH}/${roomId}`);
-    const newMessageRef = push(chatRef);
+    const backend = getBackend();
+    const messageId = backend.generateKey(`${CHAT_PATH}/${roomId}`);
     
     const chatMessage: ChatMessage = {
-      id: newMessageRef.key || '',
+      id: messageId,
+      playerId,
       nickname,
       message: message.trim(),
       timestamp: new Date().toISOString(),
     };
 
-    await set(newMessageRef, chatMessage);
+    await backend.set(`${CHAT_PATH}/${roomId}/${messageId}`, chatMessage);
   } catch (error) {
     console.error('Erro ao enviar mensagem:', error);
   }
@@ -241,19 +467,13 @@ export const listenToChatMessages = (
   roomId: string,
   callback: (messages: ChatMessage[]) => void
 ): (() => void) => {
-  const chatRef = ref(database, `${CHAT_PATH}/${roomId}`);
-  const chatQuery = query(chatRef, orderByChild('timestamp'));
-  
-  const unsubscribe = onValue(chatQuery, (snapshot) => {
-    if (snapshot.exists()) {
-      const messages = snapshot.val();
-      const messageList = Object.values(messages as { [key: string]: ChatMessage })
+  return getBackend().subscribe<{ [key: string]: ChatMessage }>(`${CHAT_PATH}/${roomId}`, messages => {
+    if (messages) {
+      const messageList = Object.values(messages)
         .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
       callback(messageList);
     } else {
       callback([]);
     }
   });
-
-  return () => off(chatRef, 'value', unsubscribe);
 };
\ No newline at end of file
@@ -1,166 +1,691 @@
 // src/services/gameService.ts
 
-import { ref, update, get, onValue, off } from 'firebase/database';
-import { database } from '../config/firebase';
-import { GameState, Card, RoundResult, Room, Player } from '../types';
-import { distributeCards, selectRandomPlayer, compareCards, checkGameEnd, shuffleArray } from '../utils/gameUtils';
-
+import { getBackend, Unsubscribe } from './backend';
+import { getDeckAttributes, getDeckCards } from '../data/decks';
+import { GameState, Card, Room } from '../types';
+import {
+  applyEvent,
+  EngineAction,
+  EngineContext,
+  GameEvent,
+  getAutomaticAction,
+  isPhaseOverdue,
+  replayEvents,
+  validateCardChoice,
+} from '../utils/gameEngine';
+import { GameRuleError, GameRuleErrorCode, isGameRuleError } from '../utils/gameErrors';
+import { arrangeTeamSeats, assignTeams, resolveGameSettings } from '../utils/gameUtils';
+import { createCardCommitment, verifyCardCommitment } from '../utils/hash';
+import { generateSalt, generateSeed } from '../utils/random';
+import { GAME_SCHEMA_VERSION, isSchemaError, parseGameState, SchemaError } from '../utils/schema';
+
+// A partida fica dividida conforme quem pode vê-la (ver database.rules.json):
+// o estado público e o histórico de eventos em games/, a mão de cada jogador
+// em hands/ e a partida completa, com a semente, em gameSecrets/, que só o
+// anfitrião lê. Os demais jogadores enviam as jogadas para gameMoves/ e o
+// anfitrião as aplica.
 const GAMES_PATH = 'games';
+const HANDS_PATH = 'hands';
+const SECRETS_PATH = 'gameSecrets';
+const MOVES_PATH = 'gameMoves';
 const ROOMS_PATH = 'rooms';
 
+// Quanto quem enviou uma jogada espera a resposta do anfitrião
+export const MOVE_TIMEOUT_MS = 20 * 1000;
+
+/**
+ * Partida completa, como o anfitrião a guarda: o estado atual e quantos
+ * eventos do histórico levam até ele
+ */
+type StoredGame = GameState & { eventCount?: number };
+
+/**
+ * Parte pública da partida como fica no banco: o histórico de eventos fica
+ * junto dela, em `events/{seq}`, e nunca é regravado
+ */
+type PublicGame = GameState & { events?: GameEvent[] | { [seq: string]: GameEvent } };
+
+type PlayerAction = Extract<EngineAction, { type: 'COMMIT_CARD' | 'REVEAL_CARD' | 'SELECT_ATTRIBUTE' | 'FORFEIT' }>;
+
+// Ações que um jogador pode enviar ao anfitrião, sempre em nome de si mesmo
+const PLAYER_ACTIONS: PlayerAction['type'][] = ['COMMIT_CARD', 'REVEAL_CARD', 'SELECT_ATTRIBUTE', 'FORFEIT'];
+
+/**
+ * Resposta do anfitrião a uma jogada: recusas do motor de regras trazem o código
+ */
+interface MoveResult {
+  ok: boolean;
+  code?: GameRuleErrorCode;
+  message?: string;
+}
+
+/**
+ * Jogada enviada ao anfitrião (`gameMoves/{roomId}/{moveId}`)
+ */
+interface GameMove {
+  player: string;
+  action: PlayerAction;
+  result?: MoveResult;
+}
+
+/**
+ * Trabalho do anfitrião em andamento em cada sala: as ações são aplicadas e
+ * publicadas uma de cada vez, na ordem em que chegaram
+ */
+const hostQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Cartas comprometidas por este aparelho (jogador local e bots que ele
+ * controla) que ainda não foram reveladas. Ficam só em memória: o banco
+ * guarda apenas o hash até que todos tenham jogado.
+ */
+const pendingReveals = new Map<string, { roomId: string; player: string; cardId: string; salt: string }>();
+
+const createEngineContext = (deckId?: string, cards?: Card[]): EngineContext => ({
+  cards: cards || (deckId ? getDeckCards(deckId) : []),
+  attributes: getDeckAttributes(deckId),
+});
+
+/**
+ * Remove campos undefined, que o Firebase não aceita
+ */
+const toFirebaseValue = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Valor no formato em que o banco o devolve: chaves em ordem, sem nulos e
+ * sem listas ou objetos vazios. Usado para comparar estados.
+ */
+const toStoredValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(toStoredValue);
+    return items.some(item => item !== null) ? items : null;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value).sort()
+      .map(key => [key, toStoredValue((value as { [key: string]: unknown })[key])] as const)
+      .filter(([, child]) => child !== null && child !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+  }
+  return value ?? null;
+};
+
+/**
+ * Aplica a ação ao estado salvo e cria o evento correspondente, o próximo do
+ * histórico. Uma nova distribuição começa um histórico novo.
+ */
+const appendEvent = (
+  stored: StoredGame | null,
+  action: EngineAction,
+  context: EngineContext,
+  clientId: string
+): { game: StoredGame; event: GameEvent } => {
+  const { eventCount = 0, ...current } = stored || {};
+  const state = stored ? (current as GameState) : null;
+  const seq = action.type === 'DEAL' ? 0 : eventCount;
+
+  const event: GameEvent = { seq, at: Date.now(), by: clientId, action };
+  const next = applyEvent(state, event, context);
+  const eliminated = (next.eliminatedPlayers || []).filter(p => !(state?.eliminatedPlayers || []).includes(p));
+  if (eliminated.length > 0) {
+    event.eliminated = eliminated;
+  }
+  return {
+    game: toFirebaseValue({ ...next, schemaVersion: GAME_SCHEMA_VERSION, eventCount: seq + 1 }),
+    event: toFirebaseValue(event),
+  };
+};
+
+/**
+ * Eventos em ordem de sequência (o Firebase devolve chaves numéricas como lista)
+ */
+const toEventList = (events: PublicGame['events'] | null): GameEvent[] =>
+  Object.values(events || {}).filter(Boolean).sort((a, b) => a.seq - b.seq);
+/**
+ * Jogadores que venceram a partida (no modo em duplas, os dois do time vencedor)
+ */
+const getGameWinners = (gameState: GameState): string[] => {
+  if (gameState.teams) {
+    const { teams, winningTeam } = gameState;
+    return winningTeam ? Object.keys(teams).filter(p => teams[p] === winningTeam) : [];
+  }
+  return gameState.gameWinner ? [gameState.gameWinner] : [];
+};
+
+const isPlayerAction = (action: EngineAction): action is PlayerAction =>
+  (PLAYER_ACTIONS as string[]).includes(action.type);
+
+/**
+ * Parte da partida que todos na sala veem: sem as mãos (só a quantidade de
+ * cartas de cada um), o estado do sorteio e as cartas descartadas. A semente
+ * só aparece no fim, para que qualquer um possa refazer a partida.
+ */
+const toPublicGame = (game: StoredGame): GameState => {
+  const visible: StoredGame = {
+    ...game,
+    playerCards: {},
+    // Mãos vazias somem do banco, então só as quantidades positivas são publicadas
+    cardCounts: Object.fromEntries(
+      Object.entries(game.playerCards).filter(([, cards]) => cards.length > 0).map(([p, cards]) => [p, cards.length])
+    ),
+  };
+  if (visible.gamePhase !== 'finished') {
+    delete visible.seed;
+  }
+  delete visible.rngState;
+  delete visible.discardedCards;
+  delete visible.eventCount;
+  return visible;
+};
+
+/**
+ * Evento como os jogadores o veem: a distribuição vai sem a semente, que
+ * revelaria as mãos de todos
+ */
+const toPublicEvent = (event: GameEvent): GameEvent => {
+  if (event.action.type !== 'DEAL') return event;
+  const action: Partial<typeof event.action> = { ...event.action };
+  delete action.seed;
+  return { ...event, action: action as EngineAction };
+};
+
+/**
+ * Lê a parte pública da partida, sem o histórico que fica junto dela
+ */
+const parsePublicGame = (value: unknown): GameState => {
+  const game: PublicGame = parseGameState(value);
+  delete game.events;
+  return game;
+};
+
+/**
+ * Jogador da sala registrado para este aparelho
+ */
+const getDevicePlayer = async (roomId: string): Promise<string | null> => {
+  const backend = getBackend();
+  const clientId = await backend.getClientId();
+  return backend.get<string>(`${ROOMS_PATH}/${roomId}/members/${clientId}`);
+};
+
+/**
+ * Diz se este aparelho é o anfitrião da sala, o único que lê a partida
+ * completa e aplica as ações
+ */
+export const isGameHost = async (roomId: string): Promise<boolean> => {
+  const [devicePlayer, hostId] = await Promise.all([
+    getDevicePlayer(roomId),
+    getBackend().get<string>(`${ROOMS_PATH}/${roomId}/hostId`),
+  ]);
+  return !!hostId && devicePlayer === hostId;
+};
+
+const runAsHost = <T>(roomId: string, task: () => Promise<T>): Promise<T> => {
+  const run = (hostQueues.get(roomId) || Promise.resolve()).catch(() => {}).then(task);
+  hostQueues.set(roomId, run);
+  return run;
+};
+
+/**
+ * Publica a partida gravada pelo anfitrião: o estado público campo a campo,
+ * o novo evento na sua posição do histórico, as mãos e, na sala, as
+ * eliminações, o fim da partida e o placar da série
+ */
+const publishGame = async (
+  roomId: string,
+  game: StoredGame,
+  previous: StoredGame | null,
+  event: GameEvent
+): Promise<void> => {
+  const backend = getBackend();
+  const gameUpdates: { [path: string]: unknown } = {
+    [`${GAMES_PATH}/${roomId}/events/${event.seq}`]: toFirebaseValue(toPublicEvent(event)),
+    [`${HANDS_PATH}/${roomId}`]: game.playerCards,
+  };
+  // Campo a campo para não regravar o histórico; os que sumiram do estado são apagados
+  Object.keys(previous ? toPublicGame(previous) : {}).forEach(field => {
+    gameUpdates[`${GAMES_PATH}/${roomId}/${field}`] = null;
+  });
+  Object.entries(toPublicGame(game)).forEach(([field, value]) => {
+    gameUpdates[`${GAMES_PATH}/${roomId}/${field}`] = value;
+  });
+  await backend.update(gameUpdates);
+
+  // Mantém o status dos jogadores da sala em sincronia com as eliminações
+  const updates: { [path: string]: unknown } = {};
+  (game.eliminatedPlayers || [])
+    .filter(p => !(previous?.eliminatedPlayers || []).includes(p))
+    .forEach(p => {
+      updates[`${ROOMS_PATH}/${roomId}/players/${p}/status`] = 'eliminated';
+    });
+
+  // Fim de partida: a sala fica aguardando revanche e o placar da série é atualizado
+  if (game.gamePhase === 'finished' && previous?.gamePhase !== 'finished') {
+    updates[`${ROOMS_PATH}/${roomId}/status`] = 'finished';
+    getGameWinners(game).forEach(p => {
+      updates[`${ROOMS_PATH}/${roomId}/seriesScores/${p}`] = backend.increment(1);
+    });
+  }
+  if (Object.keys(updates).length > 0) {
+    await backend.update(updates);
+  }
+};
+
+/**
+ * Aplica a ação no motor de regras, no aparelho do anfitrião, dentro de uma
+ * transação sobre a partida completa, e a registra no histórico.
+ * Se a ação deixar de ser válida, a transação é abortada e o GameRuleError
+ * do motor é repassado a quem chamou.
+ * A ação pode ser uma função do estado atual (ex.: transições automáticas).
+ */
+const applyAsHost = async (
+  roomId: string,
+  action: EngineAction | ((state: GameState) => EngineAction),
+  precheck?: (state: GameState) => void
+): Promise<GameState | null> => {
+  const backend = getBackend();
+  const clientId = await backend.getClientId();
+  let previous = null as StoredGame | null;
+  let event = null as GameEvent | null;
+  let failure: unknown = null;
+
+  const result = await backend.transaction<StoredGame>(`${SECRETS_PATH}/${roomId}`, current => {
+    previous = current;
+    failure = null;
+    // Sem cache local a primeira tentativa recebe null; o Firebase repete com o valor do servidor
+    if (!current) return current;
+    try {
+      // Partidas de versões antigas são atualizadas antes da ação e gravadas já no formato atual
+      const game: StoredGame = parseGameState(current);
+      precheck?.(game);
+      const resolvedAction = typeof action === 'function' ? action(game) : action;
+      const appended = appendEvent(game, resolvedAction, createEngineContext(game.deckId), clientId);
+      event = appended.event;
+      return appended.game;
+    } catch (error) {
+      failure = error;
+      return undefined; // Aborta a transação
+    }
+  });
+
+  if (failure) throw failure;
+  if (!result.committed || !result.value || !event) return null;
+  await publishGame(roomId, result.value, previous, event);
+  return result.value;
+};
+
+/**
+ * Lê a partida como um jogador a vê: o estado público e a própria mão
+ */
+const readPlayerView = async (roomId: string, playerId: string): Promise<GameState | null> => {
+  const backend = getBackend();
+  const [game, hand] = await Promise.all([
+    backend.get<GameState>(`${GAMES_PATH}/${roomId}`),
+    backend.get<string[]>(`${HANDS_PATH}/${roomId}/${playerId}`),
+  ]);
+  return game && { ...parsePublicGame(game), playerCards: { [playerId]: hand || [] } };
+};
+
+/**
+ * Espera o anfitrião responder a jogada gravada em `path`
+ */
+const waitForMoveResult = (path: string): Promise<MoveResult> =>
+  new Promise((resolve, reject) => {
+    let settled = false;
+    let stop: Unsubscribe | null = null;
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      stop?.();
+      settle();
+    };
+    const timer = setTimeout(
+      () => finish(() => reject(new Error('O anfitrião não respondeu à jogada'))),
+      MOVE_TIMEOUT_MS
+    );
+    stop = getBackend().subscribe<GameMove>(path, move => {
+      if (!move) {
+        finish(() => reject(new Error('A jogada foi descartada'))); // A partida foi apagada
+      } else if (move.result) {
+        const result = move.result;
+        finish(() => resolve(result));
+      }
+    });
+    if (settled) stop();
+  });
+
+/**
+ * Envia a jogada ao anfitrião e espera ele aplicá-la. Uma jogada recusada pelo
+ * motor de regras volta como o mesmo GameRuleError.
+ */
+const submitMove = async (roomId: string, action: PlayerAction): Promise<void> => {
+  const backend = getBackend();
+  const path = `${MOVES_PATH}/${roomId}/${backend.generateKey(`${MOVES_PATH}/${roomId}`)}`;
+  const move: GameMove = { player: action.player, action };
+  await backend.set(path, toFirebaseValue(move));
+  try {
+    const result = await waitForMoveResult(path);
+    if (!result.ok) {
+      throw result.code
+        ? new GameRuleError(result.code, result.message || '')
+        : new Error(result.message || 'O anfitrião não conseguiu aplicar a jogada');
+    }
+  } finally {
+    backend.remove(path).catch(() => {});
+  }
+};
+
+/**
+ * Executa uma ação da partida. No anfitrião ela é aplicada direto; nos demais
+ * aparelhos só as ações do jogador deste aparelho são aceitas, conferidas antes com
+ * `precheck` sobre a mão local e enviadas ao anfitrião.
+ * Retorna a partida como este aparelho a vê depois da ação.
+ */
+const dispatchGameAction = async (
+  roomId: string,
+  action: EngineAction | ((state: GameState) => EngineAction),
+  precheck?: (state: GameState) => void
+): Promise<GameState | null> => {
+  if (await isGameHost(roomId)) {
+    return runAsHost(roomId, () => applyAsHost(roomId, action, precheck));
+  }
+  if (typeof action === 'function' || !isPlayerAction(action) || action.player !== await getDevicePlayer(roomId)) {
+    throw new GameRuleError('NOT_HOST', 'Só o anfitrião conduz a partida');
+  }
+  if (precheck) {
+    const view = await readPlayerView(roomId, action.player);
+    if (!view) throw new GameRuleError('GAME_NOT_STARTED', 'A partida ainda não foi iniciada');
+    precheck(view);
+  }
+  await submitMove(roomId, action);
+  return readPlayerView(roomId, action.player);
+};
+
+/**
+ * Responde a jogada de outro aparelho, aplicando-a como anfitrião
+ */
+const answerMove = async (roomId: string, move: GameMove): Promise<MoveResult> => {
+  try {
+    // As regras do banco já exigem isto; a conferência protege o anfitrião de dados antigos
+    if (!move.action || !isPlayerAction(move.action) || move.action.player !== move.player) {
+      throw new GameRuleError('NOT_HOST', 'Só o anfitrião aplica esta ação');
+    }
+    await applyAsHost(roomId, move.action);
+    return { ok: true };
+  } catch (error) {
+    if (isGameRuleError(error)) return { ok: false, code: error.code, message: error.message };
+    console.error('Erro ao aplicar jogada recebida:', error);
+    return { ok: false, message: 'O anfitrião não conseguiu aplicar a jogada' };
+  }
+};
+
+/**
+ * No aparelho do anfitrião: aplica as jogadas enviadas pelos demais
+ * jogadores, na ordem de chegada, e responde cada uma com o resultado
+ */
+export const serveGameMoves = (roomId: string): Unsubscribe => {
+  const backend = getBackend();
+  const answered = new Set<string>();
+  return backend.subscribe<{ [moveId: string]: GameMove }>(`${MOVES_PATH}/${roomId}`, moves => {
+    Object.entries(moves || {})
+      .filter(([moveId, move]) => !move.result && !answered.has(moveId))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([moveId, move]) => {
+        answered.add(moveId);
+        runAsHost(roomId, () => answerMove(roomId, move))
+          .then(result => backend.set(`${MOVES_PATH}/${roomId}/${moveId}/result`, toFirebaseValue(result)))
+          .catch(error => console.error('Erro ao responder jogada:', error));
+      });
+  });
+};
+
 /**
  * Inicia um novo jogo.
  */
 export const startGame = async (
   roomId: string,
   players: string[],
-  cards: Card[]
+  cards: Card[],
+  seed: number = generateSeed()
 ): Promise<GameState> => {
-  console.log('🎯 Iniciando jogo:', { roomId, players: players.length, cards: cards.length });
+  console.log('🎯 Iniciando jogo:', { roomId, players: players.length, cards: cards.length, seed });
 
   try {
-    const playerCards = distributeCards(cards, players);
-    const firstPlayer = selectRandomPlayer(players);
-
-    const roomRef = ref(database, `${ROOMS_PATH}/${roomId}/players`);
-    const playersSnapshot = await get(roomRef);
-    const playersData = playersSnapshot.val() as { [key: string]: Player };
+    const backend = getBackend();
+    const room = await backend.get<Room>(`${ROOMS_PATH}/${roomId}`);
+    if (!room) {
+      throw new Error('Sala não encontrada');
+    }
+    const playersData = room.players;
 
     Object.keys(playersData).forEach(p => {
       playersData[p].status = 'active';
     });
 
-    const gameState: GameState = {
-      currentRound: 1,
-      currentPlayer: firstPlayer,
-      gamePhase: 'spinning',
-      playerCards,
-      currentRoundCards: {},
-      selectedAttribute: null,
-      roundWinner: null,
-      gameWinner: null,
-      roundHistory: [],
-      spinResult: firstPlayer,
-    };
+    const handicaps: { [player: string]: number } = {};
+    players.forEach(p => { handicaps[p] = playersData[p]?.handicap || 0; });
+
+    // No modo em duplas os parceiros se sentam intercalados com os adversários
+    const teamMode = resolveGameSettings(room.settings).teamMode;
+    const teams = teamMode
+      ? assignTeams(players, Object.fromEntries(players.map(p => [p, playersData[p]?.team])))
+      : undefined;
+    const seats = teams ? arrangeTeamSeats(players, teams) : players;
+    if (teams) {
+      players.forEach(p => { playersData[p].team = teams[p]; });
+    }
 
-    const updates = {
-      [`${ROOMS_PATH}/${roomId}/status`]: 'playing',
-      [`${ROOMS_PATH}/${roomId}/players`]: playersData,
-      [`${GAMES_PATH}/${roomId}`]: gameState,
+    const dealAction: EngineAction = {
+      type: 'DEAL',
+      players: seats,
+      playerNames: Object.fromEntries(players.map(p => [p, playersData[p]?.nickname || p])),
+      seed,
+      deckId: room.deckId,
+      settings: room.settings,
+      handicaps,
+      teams,
+      timestamp: new Date().toISOString(),
     };
 
-    await update(ref(database), updates);
+    // Só o anfitrião distribui; a transação impede que a mesma partida seja distribuída duas vezes
+    if (!(await isGameHost(roomId))) {
+      throw new GameRuleError('NOT_HOST', 'Só o anfitrião inicia a partida');
+    }
+    const clientId = await backend.getClientId();
+    const gameState = await runAsHost(roomId, async () => {
+      let failure: unknown = null;
+      let event = null as GameEvent | null;
+      const result = await backend.transaction<StoredGame>(`${SECRETS_PATH}/${roomId}`, current => {
+        failure = null;
+        try {
+          const appended = appendEvent(current, dealAction, createEngineContext(room.deckId, cards), clientId);
+          event = appended.event;
+          return appended.game;
+        } catch (error) {
+          failure = error;
+          return undefined;
+        }
+      });
+      if (failure) throw failure;
+      if (!result.committed || !result.value || !event) {
+        throw new GameRuleError('GAME_ALREADY_STARTED', 'A partida já está em andamento');
+      }
+      await publishGame(roomId, result.value, null, event);
+      return result.value as GameState;
+    });
 
-    setTimeout(async () => {
-      try {
-        await update(ref(database), {
-          [`${GAMES_PATH}/${roomId}/gamePhase`]: 'selecting',
-        });
-      } catch (error) {
-        console.error('❌ Erro na transição para "selecting":', error);
+    // Campo a campo: as regras não deixam regravar o nó dos jogadores
+    const updates: { [path: string]: unknown } = {
+      [`${ROOMS_PATH}/${roomId}/status`]: 'playing',
+      [`${ROOMS_PATH}/${roomId}/listing`]: null,
+      [`${ROOMS_PATH}/${roomId}/lastActivity`]: Date.now(),
+    };
+    Object.entries(playersData).forEach(([key, player]) => {
+      updates[`${ROOMS_PATH}/${roomId}/players/${key}/status`] = player.status;
+      if (player.team) {
+        updates[`${ROOMS_PATH}/${roomId}/players/${key}/team`] = player.team;
       }
-    }, 4000);
+    });
+
+    await backend.update(updates);
 
     return gameState;
   } catch (error) {
     console.error('❌ Erro detalhado ao iniciar jogo:', error);
+    if (isGameRuleError(error)) throw error;
     throw new Error('Não foi possível iniciar o jogo');
   }
 };
 
 /**
- * Jogador seleciona uma carta.
+ * Apaga a partida da sala (estado público, mãos, partida completa e jogadas)
+ * para que a próxima distribuição comece do zero
+ */
+export const clearGame = async (roomId: string): Promise<void> => {
+  await getBackend().update({
+    [`${GAMES_PATH}/${roomId}`]: null,
+    [`${HANDS_PATH}/${roomId}`]: null,
+    [`${SECRETS_PATH}/${roomId}`]: null,
+    [`${MOVES_PATH}/${roomId}`]: null,
+  });
+};
+
+/**
+ * Carta comprometida por este aparelho e ainda não revelada
+ */
+export const getPendingCard = (roomId: string, playerId: string): string | undefined => {
+  return pendingReveals.get(`${roomId}/${playerId}`)?.cardId;
+};
+
+/**
+ * Cartas e sais ainda não revelados nesta sala (do jogador local e dos bots
+ * que este aparelho controla), para guardar no aparelho e não perder as
+ * jogadas se o app for fechado antes da revelação
+ */
+export const getPendingReveals = (roomId: string): { [playerId: string]: { cardId: string; salt: string } } => {
+  const reveals: { [playerId: string]: { cardId: string; salt: string } } = {};
+  pendingReveals.forEach(pending => {
+    if (pending.roomId === roomId) {
+      reveals[pending.player] = { cardId: pending.cardId, salt: pending.salt };
+    }
+  });
+  return reveals;
+};
+
+/**
+ * Devolve à memória uma carta guardada antes do app ser reiniciado. Só é
+ * aceita se ainda corresponder ao compromisso publicado na partida.
+ */
+export const restorePendingReveal = async (
+  roomId: string,
+  playerId: string,
+  reveal: { cardId: string; salt: string }
+): Promise<boolean> => {
+  const key = `${roomId}/${playerId}`;
+  if (pendingReveals.has(key)) return true;
+
+  const gameState = await getBackend().get<GameState>(`${GAMES_PATH}/${roomId}`);
+  const commitment = gameState?.cardCommitments?.[playerId];
+  if (!gameState || gameState.currentRoundCards?.[playerId] || !commitment) return false;
+  if (!verifyCardCommitment(commitment, playerId, reveal.cardId, reveal.salt)) return false;
+
+  pendingReveals.set(key, { roomId, player: playerId, ...reveal });
+  await revealPendingCards(roomId, gameState);
+  return true;
+};
+
+/**
+ * Revela as cartas comprometidas neste aparelho assim que a partida entra na
+ * fase de revelação. Chamado a cada atualização do estado do jogo.
+ */
+export const revealPendingCards = async (roomId: string, gameState: GameState | null): Promise<void> => {
+  if (gameState?.gamePhase !== 'revealing') return;
+
+  for (const [key, pending] of Array.from(pendingReveals.entries())) {
+    if (pending.roomId !== roomId || gameState.currentRoundCards?.[pending.player]) continue;
+    // Outra chamada (ex.: disparada pelo listener) já está revelando esta carta
+    if (pendingReveals.get(key) !== pending) continue;
+
+    pendingReveals.delete(key); // Evita revelar duas vezes se o estado mudar durante o envio
+    try {
+      await dispatchGameAction(roomId, {
+        type: 'REVEAL_CARD',
+        player: pending.player,
+        cardId: pending.cardId,
+        salt: pending.salt,
+      });
+    } catch (error) {
+      // A rodada já seguiu adiante: não há mais o que revelar
+      if (isGameRuleError(error, 'INVALID_PHASE') || isGameRuleError(error, 'ALREADY_REVEALED')) continue;
+      console.error(`Erro ao revelar carta de ${pending.player}:`, error);
+      if (!pendingReveals.has(key)) pendingReveals.set(key, pending);
+    }
+  }
+};
+
+/**
+ * Jogador seleciona uma carta. Apenas o compromisso (hash) é publicado;
+ * a carta é revelada quando todos tiverem jogado.
  */
 export const playCard = async (
   roomId: string,
-  playerNickname: string,
+  playerId: string,
   cardId: string
 ): Promise<void> => {
+  const key = `${roomId}/${playerId}`;
   try {
-    const roomRef = ref(database, `${ROOMS_PATH}/${roomId}`);
-    const roomSnapshot = await get(roomRef);
-    if (!roomSnapshot.exists()) return;
-    const room: Room = roomSnapshot.val();
-    
-    const activePlayers = Object.values(room.players).filter(p => p.status === 'active');
-    const totalActivePlayers = activePlayers.length;
-
-    const gameRef = ref(database, `${GAMES_PATH}/${roomId}`);
-    const gameSnapshot = await get(gameRef);
-    if (!gameSnapshot.exists()) return;
-    const gameState: GameState = gameSnapshot.val();
-
-    await update(ref(database), {
-      [`${GAMES_PATH}/${roomId}/currentRoundCards/${playerNickname}`]: cardId,
-    });
-
-    const updatedCards = { ...gameState.currentRoundCards, [playerNickname]: cardId };
-    
-    if (Object.keys(updatedCards).length === totalActivePlayers) {
-      await update(ref(database), {
-        [`${GAMES_PATH}/${roomId}/gamePhase`]: 'animating-play',
-      });
-    }
+    const salt = generateSalt();
+    pendingReveals.set(key, { roomId, player: playerId, cardId, salt });
+    // A posse da carta é conferida agora; no banco só vai o compromisso
+    const nextState = await dispatchGameAction(
+      roomId,
+      {
+        type: 'COMMIT_CARD',
+        player: playerId,
+        commitment: createCardCommitment(playerId, cardId, salt),
+      },
+      state => validateCardChoice(state, playerId, cardId)
+    );
+    await revealPendingCards(roomId, nextState);
   } catch (error) {
+    pendingReveals.delete(key);
     console.error('Erro ao jogar carta:', error);
+    if (isGameRuleError(error)) throw error;
     throw new Error('Não foi possível jogar a carta');
   }
 };
 
 /**
- * Seleciona atributo e dispara o processo de comparação da rodada.
+ * Seleciona o atributo da rodada. A comparação acontece quando todos
+ * revelarem suas cartas e o prazo da fase seguinte vencer.
  */
 export const selectAttributeAndProcess = async (
   roomId: string,
-  attribute: string,
-  allCards: Card[],
+  playerId: string,
+  attribute: string
 ): Promise<void> => {
     try {
-        await update(ref(database), {
-            [`${GAMES_PATH}/${roomId}/selectedAttribute`]: attribute,
+        const nextState = await dispatchGameAction(roomId, {
+            type: 'SELECT_ATTRIBUTE',
+            player: playerId,
+            attribute,
         });
-
-        setTimeout(() => {
-            processRoundResult(roomId, allCards);
-        }, 1500); // Delay para jogadores verem o atributo
-
+        await revealPendingCards(roomId, nextState);
     } catch (error) {
         console.error('Erro ao selecionar atributo:', error);
+        if (isGameRuleError(error)) throw error;
         throw new Error('Não foi possível selecionar o atributo');
     }
 };
 
 /**
  * Processa o resultado, determina o vencedor e transiciona para a fase de comparação na mesa.
+ * O motor confere cada carta revelada contra o compromisso antes de comparar.
  */
-export const processRoundResult = async (
-  roomId: string,
-  allCards: Card[]
-): Promise<void> => {
+export const processRoundResult = async (roomId: string): Promise<void> => {
   try {
-    const gameRef = ref(database, `${GAMES_PATH}/${roomId}`);
-    const gameSnapshot = await get(gameRef);
-    if (!gameSnapshot.exists()) return;
-    const gameState: GameState = gameSnapshot.val();
-
-    if (!gameState.selectedAttribute) throw new Error('Atributo não selecionado');
-    
-    const { winner } = compareCards(
-      gameState.currentRoundCards,
-      gameState.selectedAttribute,
-      allCards
-    );
-
-    await update(ref(database), {
-        [`${GAMES_PATH}/${roomId}/roundWinner`]: winner,
-        [`${GAMES_PATH}/${roomId}/gamePhase`]: 'comparing-on-table',
-    });
-    
-    setTimeout(() => {
-        collectWinningsAndPrepareNextRound(roomId, allCards);
-    }, 3000); // Delay para visualizar as cartas e o vencedor
-
+    await dispatchGameAction(roomId, { type: 'RESOLVE_ROUND' });
   } catch (error) {
+    if (isGameRuleError(error)) throw error;
     console.error('Erro ao processar resultado:', error);
     throw new Error('Não foi possível processar o resultado');
   }
@@ -168,114 +693,182 @@ export const processRoundResult = async (
 
 /**
  * Coleta as cartas para o vencedor, atualiza os baralhos e prepara a próxima rodada.
+ * Em caso de empate, as cartas jogadas ficam no monte acumulado até a próxima vitória.
  */
-export const collectWinningsAndPrepareNextRound = async (
-    roomId: string,
-    allCards: Card[]
-) => {
-    const gameRef = ref(database, `${GAMES_PATH}/${roomId}`);
-    const gameSnapshot = await get(gameRef);
-    if (!gameSnapshot.exists()) return;
-    const gameState: GameState = gameSnapshot.val();
-    
-    const roomPlayersRef = ref(database, `${ROOMS_PATH}/${roomId}/players`);
-    const playersSnapshot = await get(roomPlayersRef);
-    const players: { [key: string]: Player } = playersSnapshot.val();
-
-    const winner = gameState.roundWinner;
-    if (!winner || !gameState.selectedAttribute) return;
-
-    const { results } = compareCards(
-        gameState.currentRoundCards,
-        gameState.selectedAttribute,
-        allCards
-    );
-
-    const roundResult: RoundResult = {
-        roundNumber: gameState.currentRound,
-        selectedAttribute: gameState.selectedAttribute,
-        playerCards: results,
-        winner,
-        timestamp: new Date().toISOString(),
-    };
-
-    const updatedPlayerCards = { ...gameState.playerCards };
-    const playedCards = Object.values(gameState.currentRoundCards);
-
-    Object.keys(gameState.currentRoundCards).forEach(player => {
-        const cardId = gameState.currentRoundCards[player];
-        updatedPlayerCards[player] = updatedPlayerCards[player].filter(id => id !== cardId);
+export const collectWinningsAndPrepareNextRound = async (roomId: string): Promise<void> => {
+  try {
+    await dispatchGameAction(roomId, {
+      type: 'COLLECT',
+      timestamp: new Date().toISOString(),
     });
+  } catch (error) {
+    if (isGameRuleError(error)) throw error;
+    console.error('Erro ao coletar as cartas da rodada:', error);
+    throw new Error('Não foi possível coletar as cartas da rodada');
+  }
+};
 
-    updatedPlayerCards[winner] = shuffleArray([
-        ...(updatedPlayerCards[winner] || []),
-        ...playedCards
-    ]);
-
-    Object.keys(players).forEach(p => {
-        if (updatedPlayerCards[p]?.length === 0 && players[p].status === 'active') {
-            players[p].status = 'eliminated';
-        }
-    });
+/**
+ * Inicia a próxima rodada (ou encerra a partida se já houver vencedor).
+ * Após um empate, o mesmo jogador escolhe novamente o atributo.
+ */
+export const startNextRound = async (roomId: string): Promise<void> => {
+  try {
+    await dispatchGameAction(roomId, { type: 'NEXT_ROUND' });
+  } catch (error) {
+    if (isGameRuleError(error)) throw error;
+    console.error('Erro ao iniciar próxima rodada:', error);
+    throw new Error('Não foi possível iniciar a próxima rodada');
+  }
+};
 
-    const gameWinner = checkGameEnd(players);
+/**
+ * Jogador desiste da partida: é eliminado e suas cartas seguem a regra
+ * `forfeitRule` da sala. Se era a vez dele, o próximo jogador assume.
+ */
+export const forfeitGame = async (roomId: string, playerId: string): Promise<void> => {
+  try {
+    pendingReveals.delete(`${roomId}/${playerId}`);
+    await dispatchGameAction(roomId, { type: 'FORFEIT', player: playerId });
+  } catch (error) {
+    if (isGameRuleError(error)) throw error;
+    console.error('Erro ao desistir da partida:', error);
+    throw new Error('Não foi possível desistir da partida');
+  }
+};
 
-    await update(ref(database), {
-        [`${GAMES_PATH}/${roomId}/playerCards`]: updatedPlayerCards,
-        [`${GAMES_PATH}/${roomId}/roundHistory`]: [...(gameState.roundHistory || []), roundResult],
-        [`${GAMES_PATH}/${roomId}/gamePhase`]: 'animating-win',
-        [`${ROOMS_PATH}/${roomId}/players`]: players,
-        [`${GAMES_PATH}/${roomId}/gameWinner`]: gameWinner,
-    });
+/**
+ * Retira a carta ainda não revelada de um jogador que caiu, para que o bot
+ * que assumiu o lugar dele possa jogar de novo nesta rodada (com todos os
+ * outros, se alguma carta já tinha sido revelada).
+ */
+export const withdrawPlayerCard = async (roomId: string, playerId: string): Promise<void> => {
+  pendingReveals.delete(`${roomId}/${playerId}`);
+  await dispatchGameAction(roomId, { type: 'WITHDRAW_CARD', player: playerId });
+};
 
-    setTimeout(async () => {
-        if (gameWinner) {
-            await update(ref(database), { [`${GAMES_PATH}/${roomId}/gamePhase`]: 'finished' });
-        } else {
-            await startNextRound(roomId);
-        }
-    }, 2000); // Duração da animação das cartas indo para o vencedor
+/**
+ * Conclui a fase automática cujo prazo venceu. Só o anfitrião pode chamar
+ * (os demais dependem da troca de anfitrião, ver PhaseScheduler); se a
+ * transição já aconteceu, a chamada recebe TRANSITION_NOT_DUE ou INVALID_PHASE.
+ */
+export const advanceOverduePhase = async (roomId: string): Promise<void> => {
+  await dispatchGameAction(roomId, state => {
+    const now = Date.now();
+    if (!isPhaseOverdue(state, now)) {
+      throw new GameRuleError('TRANSITION_NOT_DUE', 'O prazo da fase atual ainda não venceu');
+    }
+    const action = getAutomaticAction(state.gamePhase, new Date(now).toISOString());
+    if (!action) {
+      throw new GameRuleError('INVALID_PHASE', `A fase "${state.gamePhase}" não avança sozinha`);
+    }
+    return action;
+  });
 };
 
 /**
- * Inicia a próxima rodada.
+ * Histórico de eventos da partida, do primeiro (distribuição) ao mais
+ * recente. Fica na parte pública (`games/{id}/events`), que todos os
+ * membros da sala leem; a distribuição vem sem a semente até o fim.
  */
-export const startNextRound = async (roomId: string): Promise<void> => {
+export const getGameEvents = async (roomId: string): Promise<GameEvent[]> => {
   try {
-    const gameRef = ref(database, `${GAMES_PATH}/${roomId}`);
-    const snapshot = await get(gameRef);
-    if (!snapshot.exists()) return;
-    const gameState: GameState = snapshot.val();
-
-    const updates = {
-      [`${GAMES_PATH}/${roomId}/currentRound`]: gameState.currentRound + 1,
-      [`${GAMES_PATH}/${roomId}/currentPlayer`]: gameState.roundWinner,
-      [`${GAMES_PATH}/${roomId}/gamePhase`]: 'selecting',
-      [`${GAMES_PATH}/${roomId}/currentRoundCards`]: {},
-      [`${GAMES_PATH}/${roomId}/selectedAttribute`]: null,
-      [`${GAMES_PATH}/${roomId}/roundWinner`]: null,
-    };
+    return toEventList(await getBackend().get<PublicGame['events']>(`${GAMES_PATH}/${roomId}/events`));
+  } catch (error) {
+    console.error('Erro ao buscar histórico da partida:', error);
+    throw new Error('Não foi possível buscar o histórico da partida');
+  }
+};
 
-    await update(ref(database), updates);
+/**
+ * Confere a partida contra o próprio histórico: os eventos precisam estar em
+ * sequência e, refeitos desde a distribuição, levar exatamente ao estado
+ * publicado. A semente vem da partida encerrada ou, durante ela, da parte
+ * que só o anfitrião lê. Sem histórico ou sem semente a partida não pode ser
+ * conferida e o resultado é false.
+ */
+export const verifyGameEvents = async (roomId: string, cards?: Card[]): Promise<boolean> => {
+  try {
+    const backend = getBackend();
+    const stored = await backend.get<PublicGame>(`${GAMES_PATH}/${roomId}`);
+    if (!stored?.events) return false;
+    const { events: storedEvents, ...state } = stored;
+    delete state.schemaVersion; // Dado de armazenamento, fora do que o histórico reproduz
+    const events = toEventList(storedEvents);
+    if (events.length === 0 || events.some((event, index) => event.seq !== index)) return false;
+
+    const [deal, ...rest] = events;
+    const seed = state.seed ?? (await isGameHost(roomId)
+      ? await backend.get<number>(`${SECRETS_PATH}/${roomId}/seed`)
+      : null);
+    if (deal.action.type !== 'DEAL' || seed === null || seed === undefined) return false;
+
+    const replayed = replayEvents(
+      [{ ...deal, action: { ...deal.action, seed } }, ...rest],
+      createEngineContext(state.deckId, cards)
+    );
+    return !!replayed && JSON.stringify(toStoredValue(toPublicGame(replayed))) === JSON.stringify(toStoredValue(state));
   } catch (error) {
-    console.error('Erro ao iniciar próxima rodada:', error);
-    throw new Error('Não foi possível iniciar a próxima rodada');
+    if (isGameRuleError(error)) return false; // Algum evento não vale sobre o estado anterior
+    console.error('Erro ao conferir histórico da partida:', error);
+    throw new Error('Não foi possível conferir o histórico da partida');
   }
 };
 
 /**
- * Escuta mudanças no estado do jogo.
+ * Escuta mudanças no estado do jogo, com as mãos que este aparelho pode ver:
+ * só a de `playerId` ou, sem ele, todas (apenas o anfitrião tem acesso).
+ * Partidas de versões antigas chegam já atualizadas; as que esta versão do
+ * app não consegue usar vão para `onError` (ou chegam como null, se ele não
+ * for informado).
  */
 export const listenToGameState = (
   roomId: string,
-  callback: (gameState: GameState | null) => void
+  callback: (gameState: GameState | null) => void,
+  onError?: (error: SchemaError) => void,
+  playerId?: string
 ): (() => void) => {
-  const gameRef = ref(database, `${GAMES_PATH}/${roomId}`);
-  
-  const unsubscribe = onValue(gameRef, (snapshot) => {
-    const room = snapshot.exists() ? snapshot.val() : null;
-    callback(room);
+  const backend = getBackend();
+  let game: GameState | null | undefined; // undefined até a primeira leitura
+  let hands: GameState['playerCards'] = {};
+
+  const notify = () => {
+    if (game !== undefined) callback(game && { ...game, playerCards: hands });
+  };
+
+  const stopGame = backend.subscribe<GameState>(`${GAMES_PATH}/${roomId}`, gameState => {
+    if (!gameState) {
+      game = null;
+      notify();
+      return;
+    }
+    try {
+      game = parsePublicGame(gameState);
+    } catch (error) {
+      console.error('Partida incompatível:', error);
+      game = undefined;
+      if (onError && isSchemaError(error)) {
+        onError(error);
+      } else {
+        callback(null);
+      }
+      return;
+    }
+    notify();
   });
 
-  return () => off(gameRef, 'value', unsubscribe);
-};
\ No newline at end of file
+  const stopHands = playerId
+    ? backend.subscribe<string[]>(`${HANDS_PATH}/${roomId}/${playerId}`, hand => {
+        hands = { [playerId]: hand || [] };
+        notify();
+      })
+    : backend.subscribe<GameState['playerCards']>(`${HANDS_PATH}/${roomId}`, allHands => {
+        hands = allHands || {};
+        notify();
+      });
+
+  return () => {
+    stopGame();
+    stopHands();
+  };
+};
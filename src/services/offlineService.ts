@@ -0,0 +1,112 @@
+// src/services/offlineService.ts
+
+import { Deck, GameState, OfflineMatchResult, PlayerProfile, Room } from '../types';
+import { createMemoryBackend, getBackend, setBackend, GameBackend } from './backend';
+import { createRoom, joinRoom, setPlayerReady, startRoom } from './firebaseService';
+import { addBotToRoom } from './botService';
+import { saveOfflineResult } from './storageService';
+
+// Backend online guardado enquanto a partida offline usa o backend em memória
+let onlineBackend: GameBackend | null = null;
+
+const switchToMemoryBackend = () => {
+  if (!onlineBackend) {
+    onlineBackend = getBackend();
+  }
+  setBackend(createMemoryBackend());
+};
+
+const getStartedRoom = async (roomId: string): Promise<Room> => {
+  await startRoom(roomId);
+  const startedRoom = await getBackend().get<Room>(`rooms/${roomId}`);
+  if (!startedRoom) {
+    throw new Error('Sala offline não encontrada');
+  }
+  return startedRoom;
+};
+
+/**
+ * Cria uma partida local contra bots. Sala, jogo e bots passam a viver em
+ * memória, então nada depende de rede até endOfflineMatch ser chamado.
+ */
+export const startOfflineMatch = async (
+  player: PlayerProfile,
+  deck: Deck,
+  botCount: number = 3
+): Promise<Room> => {
+  try {
+    switchToMemoryBackend();
+
+    const room = await createRoom(player, deck.id, deck.name, true);
+    for (let i = 0; i < botCount; i++) {
+      await addBotToRoom(room.id);
+    }
+    return await getStartedRoom(room.id);
+  } catch (error) {
+    console.error('Erro ao iniciar partida offline:', error);
+    endOfflineMatch();
+    throw new Error('Não foi possível iniciar a partida offline');
+  }
+};
+
+/**
+ * Cria uma partida local em que 2 a 4 pessoas revezam o mesmo aparelho.
+ * O primeiro jogador fica como anfitrião da sala em memória.
+ */
+export const startHotseatMatch = async (players: PlayerProfile[], deck: Deck): Promise<Room> => {
+  try {
+    if (players.length < 2 || players.length > 4) {
+      throw new Error('A partida local precisa de 2 a 4 jogadores');
+    }
+    switchToMemoryBackend();
+
+    const [host, ...guests] = players;
+    const room = await createRoom(host, deck.id, deck.name, true);
+    for (const guest of guests) {
+      await joinRoom(room.code, guest);
+      await setPlayerReady(room.id, guest.id, true);
+    }
+    return await getStartedRoom(room.id);
+  } catch (error) {
+    console.error('Erro ao iniciar partida local:', error);
+    endOfflineMatch();
+    throw new Error('Não foi possível iniciar a partida local');
+  }
+};
+
+/**
+ * Descarta a partida local e volta a usar o backend online
+ */
+export const endOfflineMatch = (): void => {
+  if (onlineBackend) {
+    setBackend(onlineBackend);
+    onlineBackend = null;
+  }
+};
+
+export const isOfflineMatch = (): boolean => onlineBackend !== null;
+
+/**
+ * Salva no aparelho o resultado de uma partida offline encerrada
+ */
+export const saveOfflineMatchResult = async (
+  room: Room,
+  gameState: GameState,
+  playerId: string
+): Promise<void> => {
+  const ranking = gameState.ranking || [];
+  const result: OfflineMatchResult = {
+    id: `${room.id}-${gameState.startedAt || gameState.seed}`,
+    deckId: room.deckId,
+    deckName: room.deckName,
+    playedAt: new Date().toISOString(),
+    playerId,
+    playerNickname: gameState.playerNames?.[playerId] || room.players[playerId]?.nickname || playerId,
+    position: ranking.find(entry => entry.player === playerId)?.position || ranking.length,
+    playerCount: gameState.players?.length || ranking.length,
+    rounds: gameState.currentRound,
+    ...(gameState.endReason ? { endReason: gameState.endReason } : {}),
+    ranking,
+  };
+  await saveOfflineResult(result);
+};
@@ -0,0 +1,213 @@
+// src/services/presenceService.ts
+
+import { Player, Room } from '../types';
+import { resolveGameSettings } from '../utils/gameUtils';
+import { getRoomListingKey } from '../utils/roomUtils';
+import { isGameRuleError } from '../utils/gameErrors';
+import { getBackend, Unsubscribe } from './backend';
+import { forfeitGame, withdrawPlayerCard } from './gameService';
+import { voteRematch } from './firebaseService';
+
+const ROOMS_PATH = 'rooms';
+
+// Tempo que um jogador desconectado tem para voltar antes de perder o lugar
+export const PRESENCE_GRACE_MS = 60 * 1000;
+// O anfitrião é substituído mais cedo para a sala não ficar sem quem a conduza
+export const HOST_GRACE_MS = 15 * 1000;
+// Intervalo entre as verificações feitas pelo supervisor da sala
+export const PRESENCE_CHECK_INTERVAL_MS = 5 * 1000;
+
+const isOfflineFor = (player: Player, graceMs: number, now: number): boolean =>
+  player.connection === 'offline' && now - (player.disconnectedAt || 0) >= graceMs;
+
+const byJoinOrder = (a: Player, b: Player): number => a.joinedAt.localeCompare(b.joinedAt);
+
+/**
+ * Publica a presença do jogador na sala: 'online' enquanto houver conexão e
+ * 'offline' (com o horário do servidor) quando ela cair, via onDisconnect.
+ * Ao voltar, o jogador retoma o lugar que um bot tenha assumido.
+ */
+export const trackPresence = (roomId: string, playerId: string): Unsubscribe => {
+  const backend = getBackend();
+  const playerPath = `${ROOMS_PATH}/${roomId}/players/${playerId}`;
+
+  const stopConnection = backend.onConnectionChange(async connected => {
+    if (!connected) return;
+    try {
+      await backend.onDisconnectUpdate(playerPath, {
+        connection: 'offline',
+        disconnectedAt: backend.serverTimestamp(),
+      });
+      await backend.transaction<Player>(playerPath, player => {
+        if (!player) return player; // Saiu da sala: não recria o jogador
+        const updated: Player = { ...player, connection: 'online' };
+        delete updated.disconnectedAt;
+        if (player.replacedByBot) {
+          delete updated.isBot;
+          delete updated.botDifficulty;
+          delete updated.replacedByBot;
+        }
+        return updated;
+      });
+    } catch (error) {
+      console.error('Erro ao registrar presença:', error);
+    }
+  });
+
+  // Se o jogador for removido da sala, o onDisconnect não pode recriá-lo depois
+  const stopPlayer = backend.subscribe<Player>(playerPath, player => {
+    if (!player) {
+      backend.cancelOnDisconnect(playerPath).catch(() => {});
+    }
+  });
+
+  return () => {
+    stopConnection();
+    stopPlayer();
+    backend.cancelOnDisconnect(playerPath).catch(() => {});
+  };
+};
+
+/**
+ * Quem aplica as regras de presença: o anfitrião, ou o jogador humano
+ * conectado há mais tempo na sala se o anfitrião estiver offline.
+ */
+export const getPresenceSupervisor = (room: Room): string | null => {
+  const host = room.players?.[room.hostId];
+  if (host && !host.isBot && host.connection !== 'offline') {
+    return host.id;
+  }
+  const online = Object.values(room.players || {})
+    .filter(p => p.id && !p.isBot && p.connection !== 'offline')
+    .sort(byJoinOrder);
+  return online[0]?.id || null;
+};
+
+/**
+ * Tira da sala um jogador que não voltou a tempo (ou o nó parcial deixado
+ * por um onDisconnect). A conferência é refeita na transação do próprio nó:
+ * as regras só deixam apagar o jogador de outro aparelho nesses casos.
+ */
+const removeGonePlayer = async (roomId: string, playerKey: string, now: number): Promise<boolean> => {
+  const backend = getBackend();
+  const result = await backend.transaction<Player>(`${ROOMS_PATH}/${roomId}/players/${playerKey}`, player => {
+    if (!player) return player;
+    return !player.id || isOfflineFor(player, PRESENCE_GRACE_MS, now) ? null : undefined;
+  });
+  return result.committed;
+};
+
+/**
+ * Um bot assume o lugar de quem não voltou a tempo durante a partida. A
+ * conferência é refeita na transação do nó do jogador, que pode ter voltado.
+ */
+const replaceWithBot = async (roomId: string, playerKey: string, now: number): Promise<boolean> => {
+  const backend = getBackend();
+  const result = await backend.transaction<Player>(`${ROOMS_PATH}/${roomId}/players/${playerKey}`, player => {
+    if (!player) return player;
+    if (!isOfflineFor(player, PRESENCE_GRACE_MS, now) || player.replacedByBot) return undefined;
+    return { ...player, isBot: true, botDifficulty: 'medium', replacedByBot: true };
+  });
+  return result.committed && !!result.value;
+};
+
+/**
+ * Passa a sala para o jogador humano conectado há mais tempo se o anfitrião
+ * saiu ou caiu há mais de HOST_GRACE_MS. A sala é lida de novo logo antes,
+ * já com os bots que acabaram de assumir.
+ */
+const replaceGoneHost = async (roomId: string, now: number): Promise<void> => {
+  const backend = getBackend();
+  const room = await backend.get<Room>(`${ROOMS_PATH}/${roomId}`);
+  if (!room) return;
+
+  const players = room.players || {};
+  const host = players[room.hostId];
+  if (host && !isOfflineFor(host, HOST_GRACE_MS, now)) return;
+
+  const candidate = Object.values(players)
+    .filter(p => p.id && !p.isBot && p.connection !== 'offline')
+    .sort(byJoinOrder)[0];
+  if (!candidate || candidate.id === room.hostId) return;
+
+  const updates: { [path: string]: unknown } = {
+    [`${ROOMS_PATH}/${roomId}/hostId`]: candidate.id,
+    [`${ROOMS_PATH}/${roomId}/players/${candidate.id}/isHost`]: true,
+  };
+  if (host) {
+    updates[`${ROOMS_PATH}/${roomId}/players/${room.hostId}/isHost`] = false;
+  }
+  await backend.update(updates);
+};
+
+/**
+ * Aplica o prazo de reconexão: fora de partida quem não voltou sai da sala;
+ * durante a partida um bot assume o lugar ou o jogador desiste, conforme o
+ * `disconnectRule` da sala. Também passa a sala adiante se o anfitrião caiu.
+ * Os horários de desconexão vêm do servidor; `now` é o relógio deste cliente.
+ */
+export const enforcePresence = async (roomId: string, now: number = Date.now()): Promise<void> => {
+  const backend = getBackend();
+  const room = await backend.get<Room>(`${ROOMS_PATH}/${roomId}`);
+  if (!room) return;
+
+  const { disconnectRule } = resolveGameSettings(room.settings);
+  const toReplace: string[] = [];
+  const toForfeit: string[] = [];
+  const toRemove: string[] = [];
+
+  Object.entries(room.players || {}).forEach(([key, player]) => {
+    // Nó parcial deixado por um onDisconnect depois que o jogador saiu
+    if (!player.id) {
+      toRemove.push(key);
+      return;
+    }
+    if (!isOfflineFor(player, PRESENCE_GRACE_MS, now)) return;
+
+    if (room.status !== 'playing') {
+      toRemove.push(key);
+    } else if (player.status !== 'eliminated' && !player.replacedByBot) {
+      (disconnectRule === 'bot' ? toReplace : toForfeit).push(key);
+    }
+  });
+
+  // Cada troca é feita no nó do próprio jogador, e a do anfitrião logo depois
+  const toWithdraw: string[] = [];
+  for (const key of toReplace) {
+    if (await replaceWithBot(roomId, key, now)) toWithdraw.push(key);
+  }
+  await replaceGoneHost(roomId, now);
+
+  const removed: string[] = [];
+  for (const key of toRemove) {
+    if (await removeGonePlayer(roomId, key, now)) removed.push(key);
+  }
+  if (removed.length > 0) {
+    const players = { ...room.players };
+    removed.forEach(key => delete players[key]);
+    const updates: { [path: string]: unknown } = {
+      [`${ROOMS_PATH}/${roomId}/listing`]: getRoomListingKey({ ...room, players }),
+    };
+    Object.entries(room.members || {})
+      .filter(([, playerId]) => removed.includes(playerId))
+      .forEach(([clientId]) => {
+        updates[`${ROOMS_PATH}/${roomId}/members/${clientId}`] = null;
+      });
+    await backend.update(updates);
+  }
+
+  const ignoreRuleErrors = (error: unknown) => {
+    if (!isGameRuleError(error)) throw error; // Já revelou, já saiu, a partida acabou ou quem supervisiona não é o anfitrião
+  };
+  // O bot que assumiu precisa jogar de novo se a carta do jogador não foi revelada
+  for (const player of toWithdraw) {
+    await withdrawPlayerCard(roomId, player).catch(ignoreRuleErrors);
+  }
+  for (const player of toForfeit) {
+    await forfeitGame(roomId, player).catch(ignoreRuleErrors);
+  }
+  // Quem foi removido não bloqueia a revanche dos que ficaram
+  if (removed.length > 0 && room.status === 'finished') {
+    await voteRematch(roomId);
+  }
+};
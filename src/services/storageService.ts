@@ -1,12 +1,19 @@
 // src/services/storageService.ts
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User } from '../types';
+import { ActiveGame, OfflineMatchResult, User } from '../types';
+import { generatePlayerId } from '../utils/random';
 
 const STORAGE_KEYS = {
   USER_DATA: '@trunfia_user_data',
+  OFFLINE_RESULTS: '@trunfia_offline_results',
+  ACTIVE_GAME: '@trunfia_active_game',
+  PLAYER_ID: '@trunfia_player_id',
 } as const;
 
+// Quantos resultados offline ficam guardados (os mais antigos são descartados)
+const MAX_OFFLINE_RESULTS = 50;
+
 /**
  * Salva os dados do usuário (nickname e avatar) no AsyncStorage
  * @param userData - Objeto User a ser salvo
@@ -44,4 +51,87 @@ export const clearUserData = async (): Promise<void> => {
   } catch (error) {
     console.error('Erro ao limpar dados do usuário:', error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Recupera o ID do jogador neste aparelho, gerando e salvando um na primeira
+ * vez. O ID não muda com o apelido e não é apagado por clearUserData.
+ */
+export const getPlayerId = async (): Promise<string> => {
+  try {
+    const storedId = await AsyncStorage.getItem(STORAGE_KEYS.PLAYER_ID);
+    if (storedId) return storedId;
+    const playerId = generatePlayerId();
+    await AsyncStorage.setItem(STORAGE_KEYS.PLAYER_ID, playerId);
+    return playerId;
+  } catch (error) {
+    console.error('Erro ao recuperar ID do jogador:', error);
+    throw new Error('Não foi possível identificar o jogador');
+  }
+};
+
+/**
+ * Salva o resultado de uma partida offline (ignora se já estiver salvo)
+ * @param result - Resultado da partida
+ */
+export const saveOfflineResult = async (result: OfflineMatchResult): Promise<void> => {
+  try {
+    const results = await getOfflineResults();
+    if (results.some(r => r.id === result.id)) return;
+    const updatedResults = [result, ...results].slice(0, MAX_OFFLINE_RESULTS);
+    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_RESULTS, JSON.stringify(updatedResults));
+  } catch (error) {
+    console.error('Erro ao salvar resultado offline:', error);
+    throw new Error('Não foi possível salvar o resultado da partida');
+  }
+};
+
+/**
+ * Recupera os resultados das partidas offline, do mais recente ao mais antigo
+ */
+export const getOfflineResults = async (): Promise<OfflineMatchResult[]> => {
+  try {
+    const resultsString = await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_RESULTS);
+    return resultsString ? JSON.parse(resultsString) : [];
+  } catch (error) {
+    console.error('Erro ao recuperar resultados offline:', error);
+    return [];
+  }
+};
+
+/**
+ * Salva a partida online em andamento para poder retomá-la depois
+ * @param activeGame - Sala, baralho e carta ainda não revelada
+ */
+export const saveActiveGame = async (activeGame: ActiveGame): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_GAME, JSON.stringify(activeGame));
+  } catch (error) {
+    console.error('Erro ao salvar partida em andamento:', error);
+    throw new Error('Não foi possível salvar a partida em andamento');
+  }
+};
+
+/**
+ * Recupera a partida online em andamento, ou null se não houver
+ */
+export const getActiveGame = async (): Promise<ActiveGame | null> => {
+  try {
+    const activeGameString = await AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_GAME);
+    return activeGameString ? JSON.parse(activeGameString) : null;
+  } catch (error) {
+    console.error('Erro ao recuperar partida em andamento:', error);
+    return null;
+  }
+};
+
+/**
+ * Esquece a partida em andamento (ao sair dela ou quando ela acabou)
+ */
+export const clearActiveGame = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEYS.ACTIVE_GAME);
+  } catch (error) {
+    console.error('Erro ao limpar partida em andamento:', error);
+  }
+};
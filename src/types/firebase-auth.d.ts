@@ -0,0 +1,9 @@
+// src/types/firebase-auth.d.ts
+
+import { Persistence, ReactNativeAsyncStorage } from 'firebase/auth';
+
+// No React Native o Metro carrega a versão de firebase/auth que tem
+// getReactNativePersistence, mas os tipos públicos do pacote não a declaram
+declare module 'firebase/auth' {
+  export function getReactNativePersistence(storage: ReactNativeAsyncStorage): Persistence;
+}
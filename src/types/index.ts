@@ -7,6 +7,16 @@ export interface User {
   createdAt: string;
 }
 
+/**
+ * Identidade de quem joga: o ID é fixo por instalação e é a chave em salas e
+ * partidas; apelido e avatar servem só para exibição e podem mudar
+ */
+export interface PlayerProfile {
+  id: string;
+  nickname: string;
+  avatar: string;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -21,23 +31,109 @@ export interface Deck {
   categories: string[];
 }
 
+// Como tratar as cartas que sobram quando a divisão não é exata
+// - equal-discard: todos recebem o mesmo número de cartas e a sobra é descartada
+// - round-robin: distribui uma a uma; os primeiros jogadores ficam com a sobra
+// - remainder-to-pot: a sobra começa no monte acumulado da mesa
+// - handicap: jogadores com handicap maior recebem proporcionalmente mais cartas
+export type DealingStrategy = 'equal-discard' | 'round-robin' | 'remainder-to-pot' | 'handicap';
+
+// Quando a partida termina (além de sobrar um único jogador, que sempre encerra)
+// - last-standing: só quando sobrar um jogador
+// - max-rounds: após `maxRounds` rodadas
+// - time-limit: após `timeLimitMinutes` minutos
+// - card-target: quando alguém juntar `targetCardCount` cartas
+export type EndCondition = 'last-standing' | 'max-rounds' | 'time-limit' | 'card-target';
+
+// O que acontece com as cartas de quem desiste da partida
+// - redistribute: são distribuídas uma a uma entre os jogadores restantes
+// - discard: saem da partida
+export type ForfeitRule = 'redistribute' | 'discard';
+
+// O que acontece com quem cai da partida e não volta dentro do prazo
+export type DisconnectRule = 'bot' | 'forfeit';
+
+// Times do modo em duplas (2x2)
+export type TeamId = 'blue' | 'red';
+
+// Regras configuráveis da sala, copiadas para o GameState ao distribuir as cartas
+export interface GameSettings {
+  playMode: 'free' | 'top-card'; // 'top-card': só é possível jogar a carta do topo do monte
+  dealingStrategy: DealingStrategy;
+  endCondition: EndCondition;
+  maxRounds: number;
+  timeLimitMinutes: number;
+  targetCardCount: number;
+  teamMode: boolean; // Duplas: vence o time que eliminar todos os adversários
+  shareSpoils: boolean; // No modo em duplas, o vencedor da rodada divide as cartas ganhas com o parceiro
+  forfeitRule: ForfeitRule;
+  disconnectRule: DisconnectRule;
+}
+
+// Posição final de um jogador. Desempates: mais cartas, depois mais rodadas
+// vencidas; eliminados ficam abaixo dos ativos, melhor quem caiu por último.
+export interface RankingEntry {
+  player: string;
+  position: number; // Jogadores empatados em todos os critérios dividem a posição
+  cards: number;
+  roundsWon: number;
+  eliminatedInRound?: number;
+  forfeited?: boolean; // Saiu da partida por desistência
+}
+
+/**
+ * Resultado de uma partida offline contra bots, salvo no aparelho
+ */
+export interface OfflineMatchResult {
+  id: string;
+  deckId: string;
+  deckName: string;
+  playedAt: string;
+  playerId: string;
+  playerNickname: string;
+  position: number; // Posição do jogador no ranking final
+  playerCount: number;
+  rounds: number;
+  endReason?: EndCondition;
+  ranking: RankingEntry[];
+}
+
+/**
+ * Partida online em andamento, salva no aparelho para retomar após reiniciar o app
+ */
+export interface ActiveGame {
+  roomId: string;
+  deckId: string;
+  playerId: string;
+  savedAt: string;
+  pendingReveal?: { cardId: string; salt: string }; // Carta jogada e ainda não revelada
+  botReveals?: { [botId: string]: { cardId: string; salt: string } }; // Idem, dos bots que este aparelho controla
+}
+
 export interface Room {
+  schemaVersion?: number; // Versão do formato gravado (ver utils/schema)
   id: string;
   code: string;
-  hostNickname: string;
+  hostId: string;
   deckId: string;
   deckName: string;
-  players: { [key: string]: Player };
+  players: { [playerId: string]: Player };
   status: 'waiting' | 'playing' | 'finished';
   isPrivate: boolean;
   maxPlayers: number;
+  settings?: GameSettings;
+  rematchVotes?: { [playerId: string]: boolean }; // Quem pediu revanche após o fim da partida
+  seriesScores?: { [playerId: string]: number }; // Partidas vencidas por jogador nesta sala
   createdAt: string;
-  lastActivity: string;
+  lastActivity: number; // Horário (ms) da última alteração; as regras do banco o usam para expirar a sala
+  members?: { [clientId: string]: string }; // Aparelhos na sala (uid → ID do jogador), usado nas regras de acesso
+  listing?: string; // Chave de ordenação na lista de salas públicas; ausente se a sala não aceita jogadores
   gameState?: GameState;
 }
 
 export interface Player {
-  nickname: string;
+  id: string;
+  nickname: string; // Apenas exibição: a chave do jogador é o id
   avatar?: string; // NOVO: Avatar do jogador na sala
   isHost: boolean;
   joinedAt: string;
@@ -46,10 +142,16 @@ export interface Player {
   isBot?: boolean;
   botDifficulty?: 'easy' | 'medium' | 'hard';
   cardsCount?: number;
+  handicap?: number; // Peso extra na distribuição 'handicap' (0 = nenhum)
+  team?: TeamId;
+  connection?: 'online' | 'offline'; // Presença (ausente em bots)
+  disconnectedAt?: number; // Horário do servidor (ms) em que a conexão caiu
+  replacedByBot?: boolean; // Caiu durante a partida e um bot assumiu a mão
 }
 
 export interface ChatMessage {
   id: string;
+  playerId: string;
   nickname: string;
   message: string;
   timestamp: string;
@@ -58,30 +160,78 @@ export interface ChatMessage {
 export interface Card {
   id: string;
   name: string;
+  code?: string; // Código da carta: grupo (A–H) + número (1–4), ex.: 'A1'
+  isSuperTrunfo?: boolean; // Vence todas as cartas, mas perde para as do grupo A
   image?: string;
   attributes: { [key: string]: number };
   description?: string;
 }
 
+// Metadados de um atributo do baralho (direção da comparação e exibição)
+export interface AttributeDefinition {
+  label?: string; // Nome exibido; por padrão, a própria chave do atributo
+  direction: 'higher-wins' | 'lower-wins';
+  unit?: string;
+  format?: (value: number) => string;
+}
+
+export type AttributeDefinitions = { [attribute: string]: AttributeDefinition };
+
+// Fases de uma rodada. Transições permitidas:
+// spinning → selecting → revealing → animating-play → comparing-on-table → animating-win → selecting | finished
+export type GamePhase =
+  | 'spinning'
+  | 'selecting'
+  | 'revealing'
+  | 'animating-play'
+  | 'comparing-on-table'
+  | 'animating-win'
+  | 'finished';
+
 export interface GameState {
+  schemaVersion?: number; // Versão do formato gravado (ver utils/schema)
+  deckId?: string;
+  settings?: GameSettings;
+  seed?: number; // Semente usada na distribuição (permite reproduzir a partida)
+  rngState?: number; // Estado atual do gerador aleatório determinístico
+  players?: string[]; // IDs dos jogadores na ordem dos assentos
+  playerNames?: { [playerId: string]: string }; // Apelidos no momento da distribuição, para exibição
+  teams?: { [playerId: string]: TeamId }; // Presente apenas no modo em duplas
+  eliminatedPlayers?: string[];
+  eliminationRounds?: { [playerId: string]: number }; // Rodada em que cada jogador foi eliminado
+  forfeitedPlayers?: string[]; // Eliminados por desistência
+  startedAt?: string;
+  lastActivity?: number; // Horário (ms) da última ação aplicada na partida (usado na limpeza de salas abandonadas)
   currentRound: number;
   currentPlayer: string;
-  gamePhase: 'spinning' | 'selecting' | 'animating-play' | 'comparing-on-table' | 'animating-win' | 'finished';
-  playerCards: { [playerNickname: string]: string[] };
-  currentRoundCards: { [playerNickname: string]: string };
+  gamePhase: GamePhase;
+  phaseDeadline?: string; // Quando a fase atual deve avançar sozinha (fases automáticas)
+  playerCards: { [playerId: string]: string[] }; // Mãos que este aparelho conhece: todas no anfitrião, só a própria nos demais
+  cardCounts?: { [playerId: string]: number }; // Quantas cartas cada um tem, publicado no lugar das mãos
+  cardCommitments?: { [playerId: string]: string }; // Hash da carta escolhida, publicado antes da revelação
+  cardSalts?: { [playerId: string]: string }; // Sal revelado junto com a carta, para conferir o compromisso
+  currentRoundCards: { [playerId: string]: string }; // Cartas já reveladas
   selectedAttribute: string | null;
   roundWinner: string | null;
-  gameWinner: string | null;
+  tiedPlayers?: string[]; // Jogadores empatados na rodada atual
+  pot?: string[]; // Monte acumulado: cartas empatadas que ficam na mesa
+  discardedCards?: string[]; // Cartas que ficaram fora da partida na distribuição
+  gameWinner: string | null; // Primeiro colocado (null se a liderança terminou empatada)
+  winningTeam?: TeamId | null; // Modo em duplas: time vencedor (null se empatado)
+  ranking?: RankingEntry[]; // Classificação final, preenchida quando a partida termina
+  endReason?: EndCondition;
   roundHistory: RoundResult[];
   spinResult?: string;
-  botActions?: { [playerNickname: string]: BotAction };
+  botActions?: { [playerId: string]: BotAction };
 }
 
 export interface RoundResult {
   roundNumber: number;
   selectedAttribute: string;
-  playerCards: { [playerNickname: string]: { cardId: string; value: number } };
-  winner: string;
+  playerCards: { [playerId: string]: { cardId: string; value: number } };
+  winner: string | null; // null quando a rodada termina empatada
+  isDraw?: boolean;
+  tiedPlayers?: string[];
   timestamp: string;
 }
 
@@ -102,6 +252,7 @@ export interface BotDecision {
 // CORREÇÃO: Propriedade 'playerAvatar' adicionada
 export interface GameContextState {
   selectedDeck: Deck | null;
+  playerId: string;
   playerNickname: string;
   playerAvatar: string | null; // Adicionado aqui
   currentRoom: Room | null;
@@ -114,5 +265,6 @@ export type RootStackParamList = {
   Login: undefined;
   DeckSelection: undefined;
   Lobby: undefined;
-  Game: { roomId: string };
+  HotseatSetup: undefined;
+  Game: { roomId: string; offline?: boolean; hotseat?: boolean };
 };
\ No newline at end of file
@@ -1,6 +1,7 @@
 // src/utils/botUtils.ts
 
-import { Card, BotDecision } from '../types';
+import { Card, BotDecision, AttributeDefinitions } from '../types';
+import { isLowerBetter } from './gameUtils';
 
 /**
  * Gera nomes aleatórios para bots
@@ -38,15 +39,29 @@ export const generateBotName = (existingPlayers: string[]): string => {
 };
 
 /**
- * Encontra o melhor atributo de uma carta (maior valor)
+ * Encontra o melhor atributo de uma carta: aquele em que ela supera a maior
+ * parte do baralho, respeitando a direção (maior/menor vence) de cada atributo.
  */
-export const findBestAttribute = (card: Card): { attribute: string; value: number } => {
+export const findBestAttribute = (
+  card: Card,
+  allCards: Card[],
+  definitions: AttributeDefinitions = {}
+): { attribute: string; value: number } => {
   let bestAttribute = '';
-  let bestValue = -1;
+  let bestValue = 0;
+  let bestScore = -1;
   
-  // CORREÇÃO: Garante que a comparação funcione corretamente para todos os valores.
   Object.entries(card.attributes).forEach(([attribute, value]) => {
-    if (value > bestValue) {
+    const lowerWins = isLowerBetter(attribute, definitions);
+    const comparable = allCards.filter(c => c.attributes[attribute] !== undefined);
+    const beaten = comparable.filter(c => {
+      const other = c.attributes[attribute];
+      return lowerWins ? value < other : value > other;
+    }).length;
+    const score = comparable.length > 0 ? beaten / comparable.length : 0;
+
+    if (score > bestScore) {
+      bestScore = score;
       bestValue = value;
       bestAttribute = attribute;
     }
@@ -60,7 +75,8 @@ export const findBestAttribute = (card: Card): { attribute: string; value: numbe
  */
 export const selectBestCard = (
   playerCards: string[],
-  allCards: Card[]
+  allCards: Card[],
+  definitions: AttributeDefinitions = {}
 ): BotDecision => {
   const availableCards = playerCards
     .map(cardId => allCards.find(card => card.id === cardId))
@@ -74,7 +90,7 @@ export const selectBestCard = (
   const reasoning = 'Seleção de carta aleatória, com escolha do melhor atributo.';
   const confidence = 0.8;
 
-  const bestAttribute = findBestAttribute(selectedCard);
+  const bestAttribute = findBestAttribute(selectedCard, allCards, definitions);
 
   return {
     selectedCardId: selectedCard.id,
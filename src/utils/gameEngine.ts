@@ -0,0 +1,794 @@
+// src/utils/gameEngine.ts
+
+import {
+  AttributeDefinitions,
+  Card,
+  EndCondition,
+  GamePhase,
+  GameSettings,
+  GameState,
+  RankingEntry,
+  RoundResult,
+  TeamId,
+} from '../types';
+import {
+  compareCards,
+  dealCards,
+  getNextPlayer,
+  getSurvivingTeam,
+  resolveGameSettings,
+  selectRandomPlayer,
+  shuffleArray,
+  TEAM_IDS,
+} from './gameUtils';
+import { GameRuleError } from './gameErrors';
+import { verifyCardCommitment } from './hash';
+import { createSeededRandom } from './random';
+
+/**
+ * Ações que alteram o estado de uma partida.
+ * Cada ação carrega todos os dados de que precisa (inclusive semente e
+ * horário), de modo que a mesma lista de ações sempre gera o mesmo estado.
+ */
+export type EngineAction =
+  | {
+      type: 'DEAL';
+      players: string[];
+      playerNames?: { [player: string]: string };
+      seed: number;
+      deckId?: string;
+      settings?: Partial<GameSettings>;
+      handicaps?: { [player: string]: number };
+      teams?: { [player: string]: TeamId };
+      timestamp?: string;
+    }
+  | { type: 'START_SELECTING' }
+  | { type: 'COMMIT_CARD'; player: string; commitment: string }
+  | { type: 'REVEAL_CARD'; player: string; cardId: string; salt: string }
+  | { type: 'WITHDRAW_CARD'; player: string }
+  | { type: 'SELECT_ATTRIBUTE'; player: string; attribute: string }
+  | { type: 'RESOLVE_ROUND' }
+  | { type: 'COLLECT'; timestamp: string }
+  | { type: 'NEXT_ROUND' }
+  | { type: 'FORFEIT'; player: string };
+
+/**
+ * Ação registrada no histórico da partida (`games/{id}/events`). `seq` é a
+ * posição no histórico e `at` o horário (ms) em que foi aplicada, usado para
+ * refazer os prazos das fases automáticas.
+ */
+export interface GameEvent {
+  seq: number;
+  at: number;
+  by?: string; // Aparelho (uid) que aplicou a ação
+  action: EngineAction;
+  eliminated?: string[]; // Jogadores eliminados por esta ação
+}
+
+type EngineActionType = EngineAction['type'];
+
+/**
+ * Fases em que cada ação pode ser aplicada
+ */
+const ACTION_PHASES: { [type in Exclude<EngineActionType, 'DEAL'>]: GamePhase[] } = {
+  START_SELECTING: ['spinning'],
+  COMMIT_CARD: ['selecting'],
+  SELECT_ATTRIBUTE: ['selecting'],
+  REVEAL_CARD: ['revealing'],
+  WITHDRAW_CARD: ['selecting', 'revealing'],
+  RESOLVE_ROUND: ['animating-play'],
+  COLLECT: ['comparing-on-table'],
+  NEXT_ROUND: ['animating-win'],
+  FORFEIT: ['spinning', 'selecting', 'revealing', 'animating-play', 'comparing-on-table', 'animating-win'],
+};
+
+/**
+ * Próximas fases possíveis a partir de cada fase.
+ * Uma desistência pode encerrar a partida em qualquer fase, e uma carta
+ * retirada antes de ser revelada devolve a rodada para 'selecting'.
+ */
+const PHASE_TRANSITIONS: { [phase in GamePhase]: GamePhase[] } = {
+  spinning: ['selecting', 'finished'],
+  selecting: ['revealing', 'finished'],
+  revealing: ['selecting', 'animating-play', 'finished'],
+  'animating-play': ['comparing-on-table', 'finished'],
+  'comparing-on-table': ['animating-win', 'finished'],
+  'animating-win': ['selecting', 'finished'],
+  finished: [],
+};
+
+/**
+ * Duração das fases que avançam sozinhas (animações e exibição de resultados)
+ */
+export const PHASE_DURATIONS_MS: { [phase in GamePhase]?: number } = {
+  spinning: 4000,
+  'animating-play': 1500, // Tempo para os jogadores verem o atributo
+  'comparing-on-table': 3000, // Tempo para visualizar as cartas e o vencedor
+  'animating-win': 2000, // Duração da animação das cartas indo para o vencedor
+};
+
+/**
+ * Ação que conclui uma fase automática
+ */
+export const getAutomaticAction = (phase: GamePhase, timestamp: string): EngineAction | null => {
+  switch (phase) {
+    case 'spinning':
+      return { type: 'START_SELECTING' };
+    case 'animating-play':
+      return { type: 'RESOLVE_ROUND' };
+    case 'comparing-on-table':
+      return { type: 'COLLECT', timestamp };
+    case 'animating-win':
+      return { type: 'NEXT_ROUND' };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Atualiza o prazo da fase quando ela muda: fases automáticas ganham um
+ * prazo a partir de `now`; as que dependem dos jogadores ficam sem prazo
+ */
+export const withPhaseDeadline = (
+  previousPhase: GamePhase | null,
+  next: GameState,
+  now: number
+): GameState => {
+  if (previousPhase === next.gamePhase) return next;
+
+  const duration = PHASE_DURATIONS_MS[next.gamePhase];
+  if (duration === undefined) {
+    const withoutDeadline = { ...next };
+    delete withoutDeadline.phaseDeadline;
+    return withoutDeadline;
+  }
+  return { ...next, phaseDeadline: new Date(now + duration).toISOString() };
+};
+
+/**
+ * Indica se o prazo da fase atual já passou
+ */
+export const isPhaseOverdue = (state: GameState, now: number): boolean => {
+  return !!state.phaseDeadline && new Date(state.phaseDeadline).getTime() <= now;
+};
+
+/**
+ * Indica se a ação pode ser aplicada na fase informada
+ */
+export const isActionAllowed = (phase: GamePhase | null, type: EngineActionType): boolean => {
+  if (type === 'DEAL') {
+    return phase === null || phase === 'finished';
+  }
+  return phase !== null && ACTION_PHASES[type].includes(phase);
+};
+
+/**
+ * Dados fixos da partida usados pelo motor
+ */
+export interface EngineContext {
+  cards: Card[];
+  attributes?: AttributeDefinitions;
+}
+
+/**
+ * Preenche campos que o Firebase omite quando estão vazios
+ */
+const normalizeState = (state: GameState): GameState => ({
+  ...state,
+  settings: resolveGameSettings(state.settings),
+  players: state.players || Object.keys(state.playerCards || {}),
+  eliminatedPlayers: state.eliminatedPlayers || [],
+  eliminationRounds: state.eliminationRounds || {},
+  forfeitedPlayers: state.forfeitedPlayers || [],
+  playerCards: state.playerCards || {},
+  cardCommitments: state.cardCommitments || {},
+  cardSalts: state.cardSalts || {},
+  currentRoundCards: state.currentRoundCards || {},
+  selectedAttribute: state.selectedAttribute ?? null,
+  roundWinner: state.roundWinner ?? null,
+  tiedPlayers: state.tiedPlayers || [],
+  pot: state.pot || [],
+  gameWinner: state.gameWinner ?? null,
+  roundHistory: state.roundHistory || [],
+});
+
+const assertTransition = (from: GamePhase, to: GamePhase): void => {
+  if (from !== to && !PHASE_TRANSITIONS[from].includes(to)) {
+    throw new GameRuleError('INVALID_TRANSITION', `Transição inválida: "${from}" → "${to}"`);
+  }
+};
+
+/**
+ * Jogadores ainda na partida, na ordem dos assentos
+ */
+export const getActivePlayers = (state: GameState): string[] => {
+  const eliminated = state.eliminatedPlayers || [];
+  return (state.players || []).filter(p => !eliminated.includes(p));
+};
+
+/**
+ * Próximo jogador ativo a partir de um assento (inclusive)
+ */
+const findActiveFrom = (state: GameState, player: string): string => {
+  const seats = state.players || [];
+  const active = getActivePlayers(state);
+  const startIndex = Math.max(seats.indexOf(player), 0);
+
+  for (let offset = 0; offset < seats.length; offset++) {
+    const candidate = seats[(startIndex + offset) % seats.length];
+    if (active.includes(candidate)) {
+      return candidate;
+    }
+  }
+  return player;
+};
+
+/**
+ * Parceiro ainda ativo do jogador no modo em duplas
+ */
+export const getTeammate = (state: GameState, player: string): string | null => {
+  const team = state.teams?.[player];
+  if (!team) return null;
+  return getActivePlayers(state).find(p => p !== player && state.teams?.[p] === team) || null;
+};
+
+/**
+ * Cartas da mesa em ordem de assento, começando pelo jogador informado
+ */
+const getTableCardsFrom = (state: GameState, firstPlayer: string): string[] => {
+  const seats = state.players || [];
+  const startIndex = Math.max(seats.indexOf(firstPlayer), 0);
+  const ordered = [...seats.slice(startIndex), ...seats.slice(0, startIndex)];
+  return ordered.map(p => state.currentRoundCards[p]).filter(Boolean);
+};
+
+/**
+ * Indica se o jogador já escolheu (comprometeu) sua carta nesta rodada
+ */
+export const hasCommittedCard = (state: GameState, player: string): boolean => {
+  return !!state.cardCommitments?.[player];
+};
+
+/**
+ * Quantas cartas o jogador tem: pela mão, se este aparelho a conhece, ou
+ * pela contagem publicada pelo anfitrião
+ */
+export const getCardCount = (state: GameState, player: string): number => {
+  return state.playerCards[player]?.length ?? state.cardCounts?.[player] ?? 0;
+};
+
+/**
+ * Indica se a rodada já pode ser resolvida (todos revelaram e há atributo)
+ */
+export const isRoundReady = (state: GameState): boolean => {
+  const played = Object.keys(state.currentRoundCards || {});
+  return !!state.selectedAttribute && getActivePlayers(state).every(p => played.includes(p));
+};
+
+/**
+ * Confere a carta revelada de cada jogador contra o compromisso publicado
+ */
+const assertRevealsMatchCommitments = (state: GameState): void => {
+  getActivePlayers(state).forEach(player => {
+    const commitment = state.cardCommitments?.[player];
+    const cardId = state.currentRoundCards[player];
+    const salt = state.cardSalts?.[player];
+    if (!commitment || !cardId || salt === undefined || !verifyCardCommitment(commitment, player, cardId, salt)) {
+      throw new GameRuleError('INVALID_REVEAL', `A carta revelada por ${player} não corresponde ao compromisso`);
+    }
+  });
+};
+
+/**
+ * Passa para a revelação quando todos se comprometeram e o atributo foi escolhido.
+ * Assim ninguém vê as cartas adversárias antes de fechar a própria jogada.
+ */
+const advanceToReveal = (state: GameState): GameState => {
+  const everyoneCommitted = getActivePlayers(state).every(p => hasCommittedCard(state, p));
+  return everyoneCommitted && state.selectedAttribute ? { ...state, gamePhase: 'revealing' } : state;
+};
+
+/**
+ * Classificação da partida. Ativos ficam à frente dos eliminados; entre os
+ * ativos vence quem tem mais cartas e, em seguida, mais rodadas vencidas;
+ * entre os eliminados, fica melhor quem caiu por último.
+ */
+export const buildRanking = (state: GameState): RankingEntry[] => {
+  const eliminationRounds = state.eliminationRounds || {};
+  const entries: RankingEntry[] = (state.players || []).map(player => ({
+    player,
+    position: 0,
+    cards: (state.playerCards?.[player] || []).length,
+    roundsWon: (state.roundHistory || []).filter(r => r.winner === player).length,
+    // Firebase não aceita campos undefined
+    ...(eliminationRounds[player] !== undefined ? { eliminatedInRound: eliminationRounds[player] } : {}),
+    ...((state.forfeitedPlayers || []).includes(player) ? { forfeited: true } : {}),
+  }));
+
+  const compare = (a: RankingEntry, b: RankingEntry): number => {
+    const aRound = a.eliminatedInRound ?? Infinity;
+    const bRound = b.eliminatedInRound ?? Infinity;
+    if (aRound !== bRound) return bRound - aRound;
+    if (a.cards !== b.cards) return b.cards - a.cards;
+    return b.roundsWon - a.roundsWon;
+  };
+
+  const sorted = [...entries].sort(compare);
+  sorted.forEach((entry, index) => {
+    const previous = sorted[index - 1];
+    entry.position = previous && compare(previous, entry) === 0 ? previous.position : index + 1;
+  });
+  return sorted;
+};
+
+/**
+ * Verifica se alguma condição de término foi atingida ao fim da rodada
+ */
+const getEndReason = (state: GameState, timestamp: string): EndCondition | null => {
+  const settings = resolveGameSettings(state.settings);
+  const active = getActivePlayers(state);
+
+  if (active.length <= 1 || (state.teams && getSurvivingTeam(active, state.teams))) {
+    return 'last-standing';
+  }
+
+  switch (settings.endCondition) {
+    case 'max-rounds':
+      return state.currentRound >= settings.maxRounds ? 'max-rounds' : null;
+    case 'time-limit': {
+      if (!state.startedAt) return null;
+      const elapsed = new Date(timestamp).getTime() - new Date(state.startedAt).getTime();
+      return elapsed >= settings.timeLimitMinutes * 60 * 1000 ? 'time-limit' : null;
+    }
+    case 'card-target':
+      return active.some(p => (state.playerCards[p] || []).length >= settings.targetCardCount)
+        ? 'card-target'
+        : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Time vencedor: o único com jogadores ativos ou, se a partida acabou por
+ * outra condição, o que somar mais cartas
+ */
+const getWinningTeam = (state: GameState): TeamId | null => {
+  const teams = state.teams || {};
+  const active = getActivePlayers(state);
+  const survivor = getSurvivingTeam(active, teams);
+  if (survivor) return survivor;
+
+  const totals = TEAM_IDS.map(team => active
+    .filter(p => teams[p] === team)
+    .reduce((sum, p) => sum + (state.playerCards[p] || []).length, 0));
+  if (totals[0] === totals[1]) return null;
+  return totals[0] > totals[1] ? TEAM_IDS[0] : TEAM_IDS[1];
+};
+
+const deal = (action: Extract<EngineAction, { type: 'DEAL' }>, context: EngineContext): GameState => {
+  const settings = resolveGameSettings(action.settings);
+  const random = createSeededRandom(action.seed);
+  const { playerCards, pot, discarded } = dealCards(
+    context.cards,
+    action.players,
+    random.next,
+    settings.dealingStrategy,
+    action.handicaps
+  );
+  const firstPlayer = selectRandomPlayer(action.players, random.next);
+
+  return {
+    ...(action.deckId ? { deckId: action.deckId } : {}),
+    settings,
+    seed: action.seed,
+    rngState: random.getState(),
+    players: action.players,
+    ...(action.playerNames ? { playerNames: action.playerNames } : {}),
+    ...(settings.teamMode && action.teams ? { teams: action.teams } : {}),
+    eliminatedPlayers: [],
+    eliminationRounds: {},
+    ...(action.timestamp ? { startedAt: action.timestamp } : {}),
+    currentRound: 1,
+    currentPlayer: firstPlayer,
+    gamePhase: 'spinning',
+    playerCards,
+    currentRoundCards: {},
+    selectedAttribute: null,
+    roundWinner: null,
+    tiedPlayers: [],
+    pot,
+    discardedCards: discarded,
+    gameWinner: null,
+    roundHistory: [],
+    spinResult: firstPlayer,
+  };
+};
+
+/**
+ * Confere se o jogador pode jogar a carta: precisa estar na partida, ter a
+ * carta na mão e, no modo "carta do topo", ela deve ser a primeira do monte
+ */
+export const validateCardChoice = (state: GameState, player: string, cardId: string): void => {
+  if (!getActivePlayers(state).includes(player)) {
+    throw new GameRuleError('PLAYER_NOT_IN_GAME', `${player} não está na partida`);
+  }
+  const hand = state.playerCards?.[player] || [];
+  if (!hand.includes(cardId)) {
+    throw new GameRuleError('CARD_NOT_OWNED', `${player} não possui a carta ${cardId}`);
+  }
+  if (state.settings?.playMode === 'top-card' && hand[0] !== cardId) {
+    throw new GameRuleError('TOP_CARD_ONLY', 'Neste modo só é possível jogar a carta do topo do monte');
+  }
+};
+
+const commitCard = (state: GameState, player: string, commitment: string): GameState => {
+  if (!getActivePlayers(state).includes(player)) {
+    throw new GameRuleError('PLAYER_NOT_IN_GAME', `${player} não está na partida`);
+  }
+  if (hasCommittedCard(state, player)) {
+    throw new GameRuleError('ALREADY_PLAYED', `${player} já jogou nesta rodada`);
+  }
+
+  return advanceToReveal({
+    ...state,
+    cardCommitments: { ...state.cardCommitments, [player]: commitment },
+  });
+};
+
+const revealCard = (state: GameState, player: string, cardId: string, salt: string): GameState => {
+  const commitment = state.cardCommitments?.[player];
+  if (!commitment) {
+    throw new GameRuleError('NOT_PLAYED', `${player} não jogou nesta rodada`);
+  }
+  if (state.currentRoundCards[player]) {
+    throw new GameRuleError('ALREADY_REVEALED', `${player} já revelou sua carta`);
+  }
+  if (!verifyCardCommitment(commitment, player, cardId, salt)) {
+    throw new GameRuleError('INVALID_REVEAL', `A carta revelada por ${player} não corresponde ao compromisso`);
+  }
+  validateCardChoice(state, player, cardId);
+
+  const currentRoundCards = { ...state.currentRoundCards, [player]: cardId };
+  const everyoneRevealed = getActivePlayers(state).every(p => currentRoundCards[p]);
+
+  return {
+    ...state,
+    currentRoundCards,
+    cardSalts: { ...state.cardSalts, [player]: salt },
+    gamePhase: everyoneRevealed ? 'animating-play' : state.gamePhase,
+  };
+};
+
+/**
+ * Retira a carta comprometida e ainda não revelada de um jogador (ex.: ele
+ * caiu e um bot assumiu o lugar). Quem assumir joga de novo nesta rodada.
+ * Se alguma carta já foi revelada, quem jogasse de novo escolheria vendo as
+ * dos outros: as jogadas da rodada são anuladas e todos jogam de novo.
+ */
+const withdrawCard = (state: GameState, player: string): GameState => {
+  if (!hasCommittedCard(state, player)) {
+    throw new GameRuleError('NOT_PLAYED', `${player} não jogou nesta rodada`);
+  }
+  if (state.currentRoundCards[player]) {
+    throw new GameRuleError('ALREADY_REVEALED', `${player} já revelou sua carta`);
+  }
+
+  if (Object.keys(state.currentRoundCards).length > 0) {
+    return { ...state, cardCommitments: {}, cardSalts: {}, currentRoundCards: {}, gamePhase: 'selecting' };
+  }
+
+  const cardCommitments = { ...state.cardCommitments };
+  delete cardCommitments[player];
+  return { ...state, cardCommitments, gamePhase: 'selecting' };
+};
+
+const selectAttribute = (
+  state: GameState,
+  player: string,
+  attribute: string,
+  context: EngineContext
+): GameState => {
+  if (player !== state.currentPlayer) {
+    throw new GameRuleError('NOT_YOUR_TURN', `Não é a vez de ${player} escolher o atributo`);
+  }
+  if (state.selectedAttribute) {
+    throw new GameRuleError('ATTRIBUTE_ALREADY_SELECTED', 'O atributo desta rodada já foi escolhido');
+  }
+  const definitions = context.attributes || {};
+  const isDeckAttribute = Object.keys(definitions).length > 0
+    ? attribute in definitions
+    : context.cards.some(card => card.attributes[attribute] !== undefined);
+  if (!isDeckAttribute) {
+    throw new GameRuleError('INVALID_ATTRIBUTE', `Atributo inválido: ${attribute}`);
+  }
+
+  return advanceToReveal({ ...state, selectedAttribute: attribute });
+};
+
+const resolveRound = (state: GameState, context: EngineContext): GameState => {
+  if (!state.selectedAttribute) {
+    throw new GameRuleError('ATTRIBUTE_NOT_SELECTED', 'Atributo não selecionado');
+  }
+  assertRevealsMatchCommitments(state);
+
+  const { winner, tiedPlayers } = compareCards(
+    state.currentRoundCards,
+    state.selectedAttribute,
+    context.cards,
+    context.attributes
+  );
+
+  return { ...state, roundWinner: winner, tiedPlayers, gamePhase: 'comparing-on-table' };
+};
+
+const collect = (state: GameState, timestamp: string, context: EngineContext): GameState => {
+  if (!state.selectedAttribute) {
+    throw new GameRuleError('ATTRIBUTE_NOT_SELECTED', 'Atributo não selecionado');
+  }
+
+  const random = createSeededRandom(state.rngState ?? state.seed ?? 0);
+  const { winner, tiedPlayers, results } = compareCards(
+    state.currentRoundCards,
+    state.selectedAttribute,
+    context.cards,
+    context.attributes
+  );
+
+  const roundResult: RoundResult = {
+    roundNumber: state.currentRound,
+    selectedAttribute: state.selectedAttribute,
+    playerCards: results,
+    winner,
+    isDraw: !winner,
+    tiedPlayers,
+    timestamp,
+  };
+
+  const playerCards = { ...state.playerCards };
+  Object.entries(state.currentRoundCards).forEach(([player, cardId]) => {
+    playerCards[player] = (playerCards[player] || []).filter(id => id !== cardId);
+  });
+  const isTopCardMode = state.settings?.playMode === 'top-card';
+  let pot = [...(state.pot || []), ...getTableCardsFrom(state, state.currentPlayer)];
+
+  // Se o vencedor desistiu durante a comparação, as cartas ficam no monte como num empate
+  if (winner && getActivePlayers(state).includes(winner)) {
+    // No modo "carta do topo" as cartas ganhas vão para o fundo do monte em ordem
+    // definida: as da mesa a partir do vencedor, seguidas do monte acumulado
+    const winnings = isTopCardMode ? [...getTableCardsFrom(state, winner), ...(state.pot || [])] : pot;
+    const partner = state.settings?.shareSpoils ? getTeammate(state, winner) : null;
+    const receivers = partner ? [winner, partner] : [winner];
+
+    // Ao dividir com o parceiro, as cartas são alternadas começando pelo vencedor
+    receivers.forEach((receiver, index) => {
+      const share = winnings.filter((_, cardIndex) => cardIndex % receivers.length === index);
+      const hand = [...(playerCards[receiver] || []), ...share];
+      playerCards[receiver] = isTopCardMode ? hand : shuffleArray(hand, random.next);
+    });
+    pot = [];
+  } else {
+    // Se o empate esvaziou todas as mãos, o monte fica com quem escolheu o atributo
+    const someoneHasCards = getActivePlayers(state).some(p => (playerCards[p] || []).length > 0);
+    if (!someoneHasCards) {
+      playerCards[state.currentPlayer] = isTopCardMode ? pot : shuffleArray(pot, random.next);
+      pot = [];
+    }
+  }
+
+  const newlyEliminated = getActivePlayers(state).filter(p => (playerCards[p] || []).length === 0);
+  const eliminationRounds = { ...(state.eliminationRounds || {}) };
+  newlyEliminated.forEach(p => { eliminationRounds[p] = state.currentRound; });
+
+  const next: GameState = {
+    ...state,
+    rngState: random.getState(),
+    eliminatedPlayers: [...(state.eliminatedPlayers || []), ...newlyEliminated],
+    eliminationRounds,
+    playerCards,
+    pot,
+    roundHistory: [...state.roundHistory, roundResult],
+    gamePhase: 'animating-win',
+  };
+
+  const endReason = getEndReason(next, timestamp);
+  return endReason ? withFinalResult(next, endReason) : next;
+};
+
+/**
+ * Jogador desiste: é eliminado, sua carta ainda não comparada sai da mesa e
+ * o restante da mão é redistribuído ou descartado conforme `forfeitRule`.
+ * Se era a vez dele, a escolha do atributo passa para o próximo jogador.
+ */
+const forfeit = (state: GameState, player: string): GameState => {
+  const active = getActivePlayers(state);
+  if (!active.includes(player)) {
+    throw new GameRuleError('PLAYER_NOT_IN_GAME', `${player} não está na partida`);
+  }
+
+  // Status por assento antes da eliminação, para achar quem vem depois do desistente
+  const seatStatuses: { [player: string]: { status: 'active' | 'eliminated' } } = {};
+  (state.players || []).forEach(p => {
+    seatStatuses[p] = { status: active.includes(p) ? 'active' : 'eliminated' };
+  });
+  const nextPlayer = getNextPlayer(player, seatStatuses);
+
+  // Com a rodada já comparada, a carta dele continua na mesa e vai para o vencedor
+  const isRoundDecided = state.gamePhase === 'comparing-on-table';
+  const tableCard = isRoundDecided ? state.currentRoundCards[player] : undefined;
+  const released = (state.playerCards[player] || []).filter(id => id !== tableCard);
+  const playerCards = { ...state.playerCards, [player]: tableCard ? [tableCard] : [] };
+  let discardedCards = state.discardedCards || [];
+
+  const remaining = active.filter(p => p !== player);
+  if (resolveGameSettings(state.settings).forfeitRule === 'redistribute' && remaining.length > 0) {
+    // Uma a uma, começando pelo jogador seguinte ao desistente
+    const startIndex = Math.max(remaining.indexOf(nextPlayer), 0);
+    const order = [...remaining.slice(startIndex), ...remaining.slice(0, startIndex)];
+    released.forEach((cardId, index) => {
+      const receiver = order[index % order.length];
+      playerCards[receiver] = [...(playerCards[receiver] || []), cardId];
+    });
+  } else {
+    discardedCards = [...discardedCards, ...released];
+  }
+
+  const withoutPlayer = <T>(map: { [player: string]: T } = {}) => {
+    const copy = { ...map };
+    delete copy[player];
+    return copy;
+  };
+
+  const next: GameState = {
+    ...state,
+    currentPlayer: state.currentPlayer === player ? nextPlayer : state.currentPlayer,
+    eliminatedPlayers: [...(state.eliminatedPlayers || []), player],
+    eliminationRounds: { ...(state.eliminationRounds || {}), [player]: state.currentRound },
+    forfeitedPlayers: [...(state.forfeitedPlayers || []), player],
+    playerCards,
+    discardedCards,
+    ...(isRoundDecided ? {} : {
+      cardCommitments: withoutPlayer(state.cardCommitments),
+      cardSalts: withoutPlayer(state.cardSalts),
+      currentRoundCards: withoutPlayer(state.currentRoundCards),
+    }),
+  };
+
+  const stillActive = getActivePlayers(next);
+  if (stillActive.length <= 1 || (next.teams && getSurvivingTeam(stillActive, next.teams))) {
+    return { ...withFinalResult(next, 'last-standing'), gamePhase: 'finished' };
+  }
+
+  // A saída pode completar a fase para quem ficou
+  if (next.gamePhase === 'selecting') {
+    return advanceToReveal(next);
+  }
+  if (next.gamePhase === 'revealing' && stillActive.every(p => next.currentRoundCards[p])) {
+    return { ...next, gamePhase: 'animating-play' };
+  }
+  return next;
+};
+
+/**
+ * Preenche a classificação final e o vencedor da partida
+ */
+const withFinalResult = (state: GameState, endReason: EndCondition): GameState => {
+  const ranking = buildRanking(state);
+  const leaders = ranking.filter(entry => entry.position === 1);
+  return {
+    ...state,
+    ranking,
+    endReason,
+    gameWinner: leaders.length === 1 ? leaders[0].player : null,
+    ...(state.teams ? { winningTeam: getWinningTeam(state) } : {}),
+  };
+};
+
+const nextRound = (state: GameState): GameState => {
+  if (state.ranking || state.gameWinner) {
+    return { ...state, gamePhase: 'finished' };
+  }
+
+  // Após um empate, o mesmo jogador escolhe novamente o atributo
+  const chooser = findActiveFrom(state, state.roundWinner || state.currentPlayer);
+
+  return {
+    ...state,
+    currentRound: state.currentRound + 1,
+    currentPlayer: chooser,
+    gamePhase: 'selecting',
+    cardCommitments: {},
+    cardSalts: {},
+    currentRoundCards: {},
+    selectedAttribute: null,
+    roundWinner: null,
+    tiedPlayers: [],
+  };
+};
+
+const reduce = (
+  current: GameState,
+  action: Exclude<EngineAction, { type: 'DEAL' }>,
+  context: EngineContext
+): GameState => {
+  switch (action.type) {
+    case 'START_SELECTING':
+      return { ...current, gamePhase: 'selecting' };
+    case 'COMMIT_CARD':
+      return commitCard(current, action.player, action.commitment);
+    case 'REVEAL_CARD':
+      return revealCard(current, action.player, action.cardId, action.salt);
+    case 'WITHDRAW_CARD':
+      return withdrawCard(current, action.player);
+    case 'SELECT_ATTRIBUTE':
+      return selectAttribute(current, action.player, action.attribute, context);
+    case 'RESOLVE_ROUND':
+      return resolveRound(current, context);
+    case 'COLLECT':
+      return collect(current, action.timestamp, context);
+    case 'NEXT_ROUND':
+      return nextRound(current);
+    case 'FORFEIT':
+      return forfeit(current, action.player);
+    default:
+      return current;
+  }
+};
+
+/**
+ * Aplica uma ação ao estado e retorna o novo estado, sem efeitos colaterais.
+ * Lança um GameRuleError se a ação não for permitida na fase atual ou se
+ * resultar em uma transição de fase inválida.
+ */
+export const applyAction = (
+  state: GameState | null,
+  action: EngineAction,
+  context: EngineContext
+): GameState => {
+  if (action.type === 'DEAL') {
+    if (!isActionAllowed(state?.gamePhase ?? null, 'DEAL')) {
+      throw new GameRuleError('GAME_ALREADY_STARTED', 'A partida já está em andamento');
+    }
+    return deal(action, context);
+  }
+  if (!state) {
+    throw new GameRuleError('GAME_NOT_STARTED', 'A partida ainda não foi iniciada');
+  }
+
+  const current = normalizeState(state);
+  if (!isActionAllowed(current.gamePhase, action.type)) {
+    throw new GameRuleError('INVALID_PHASE', `Ação ${action.type} inválida na fase "${current.gamePhase}"`);
+  }
+
+  const next = reduce(current, action, context);
+  assertTransition(current.gamePhase, next.gamePhase);
+  return next;
+};
+
+/**
+ * Aplica um evento do histórico: a ação no motor de regras, o prazo da nova
+ * fase e o horário da última atividade. É o mesmo cálculo feito ao gravar o
+ * evento, então refazer o histórico reproduz o estado salvo.
+ */
+export const applyEvent = (
+  state: GameState | null,
+  event: GameEvent,
+  context: EngineContext
+): GameState => {
+  const next = applyAction(state, event.action, context);
+  return { ...withPhaseDeadline(state?.gamePhase ?? null, next, event.at), lastActivity: event.at };
+};
+
+/**
+ * Reconstrói uma partida a partir do histórico de eventos
+ */
+export const replayEvents = (events: GameEvent[], context: EngineContext): GameState | null => {
+  return events.reduce<GameState | null>((state, event) => applyEvent(state, event, context), null);
+};
+
+/**
+ * Reconstrói uma partida a partir da lista de ações
+ */
+export const replayActions = (actions: EngineAction[], context: EngineContext): GameState | null => {
+  return actions.reduce<GameState | null>((state, action) => applyAction(state, action, context), null);
+};
@@ -0,0 +1,42 @@
+// src/utils/gameErrors.ts
+
+/**
+ * Motivos pelos quais o motor de regras (ou o anfitrião, que o executa) recusa uma ação
+ */
+export type GameRuleErrorCode =
+  | 'GAME_NOT_STARTED'
+  | 'GAME_ALREADY_STARTED'
+  | 'INVALID_PHASE'
+  | 'INVALID_TRANSITION'
+  | 'TRANSITION_NOT_DUE'
+  | 'PLAYER_NOT_IN_GAME'
+  | 'NOT_YOUR_TURN'
+  | 'ALREADY_PLAYED'
+  | 'NOT_PLAYED'
+  | 'ALREADY_REVEALED'
+  | 'CARD_NOT_OWNED'
+  | 'TOP_CARD_ONLY'
+  | 'INVALID_REVEAL'
+  | 'ATTRIBUTE_ALREADY_SELECTED'
+  | 'ATTRIBUTE_NOT_SELECTED'
+  | 'INVALID_ATTRIBUTE'
+  | 'NOT_HOST';
+
+/**
+ * Erro lançado quando uma ação não é permitida no estado atual da partida
+ */
+export class GameRuleError extends Error {
+  code: GameRuleErrorCode;
+
+  constructor(code: GameRuleErrorCode, message: string) {
+    super(message);
+    this.name = 'GameRuleError';
+    this.code = code;
+    // Mantém o instanceof funcionando quando a classe é transpilada para ES5
+    Object.setPrototypeOf(this, GameRuleError.prototype);
+  }
+}
+
+export const isGameRuleError = (error: unknown, code?: GameRuleErrorCode): error is GameRuleError => {
+  return error instanceof GameRuleError && (!code || error.code === code);
+};
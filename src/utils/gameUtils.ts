@@ -1,82 +1,227 @@
 // src/utils/gameUtils.ts
 
-import { Card, Player } from '../types';
+import { AttributeDefinitions, Card, DealingStrategy, GameSettings, Player, TeamId } from '../types';
+import { RandomFn } from './random';
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  playMode: 'free',
+  dealingStrategy: 'equal-discard',
+  endCondition: 'last-standing',
+  maxRounds: 20,
+  timeLimitMinutes: 10,
+  targetCardCount: 20,
+  teamMode: false,
+  shareSpoils: false,
+  forfeitRule: 'redistribute',
+  disconnectRule: 'bot',
+};
+
+export const TEAM_IDS: TeamId[] = ['blue', 'red'];
+
+export const TEAM_NAMES: { [team in TeamId]: string } = {
+  blue: 'Time Azul',
+  red: 'Time Vermelho',
+};
+
+/**
+ * Completa as configurações da sala com os valores padrão
+ */
+export const resolveGameSettings = (settings?: Partial<GameSettings>): GameSettings => {
+  return { ...DEFAULT_GAME_SETTINGS, ...(settings || {}) };
+};
 
 /**
  * Embaralha um array usando algoritmo Fisher-Yates
  */
-export const shuffleArray = <T>(array: T[]): T[] => {
+export const shuffleArray = <T>(array: T[], random: RandomFn = Math.random): T[] => {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 };
 
+export interface DealResult {
+  playerCards: { [playerId: string]: string[] };
+  pot: string[];
+  discarded: string[];
+}
+
 /**
- * Distribui cartas entre jogadores de forma perfeitamente igual.
+ * Calcula quantas cartas cada jogador recebe conforme a estratégia
  */
-export const distributeCards = (cards: Card[], players: string[]): { [playerNickname: string]: string[] } => {
-  const shuffledCards = shuffleArray(cards);
-  const playerCount = players.length;
-  // CORREÇÃO: Garante que a divisão seja exata e o resto seja descartado.
-  const cardsPerPlayer = Math.floor(shuffledCards.length / playerCount);
-  const playerCards: { [playerNickname: string]: string[] } = {};
+const getDealSizes = (
+  total: number,
+  players: string[],
+  strategy: DealingStrategy,
+  handicaps: { [playerId: string]: number }
+): number[] => {
+  const base = Math.floor(total / players.length);
+  const remainder = total % players.length;
 
-  players.forEach((player, index) => {
-    const startIndex = index * cardsPerPlayer;
-    const endIndex = startIndex + cardsPerPlayer;
-    playerCards[player] = shuffledCards.slice(startIndex, endIndex).map(card => card.id);
-  });
+  switch (strategy) {
+    case 'round-robin':
+      return players.map((_, index) => base + (index < remainder ? 1 : 0));
+    case 'handicap': {
+      const weights = players.map(p => 1 + Math.max(handicaps[p] || 0, 0));
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+      const sizes = weights.map(w => Math.floor((total * w) / totalWeight));
+      let left = total - sizes.reduce((sum, n) => sum + n, 0);
+      // A sobra vai primeiro para quem tem mais handicap
+      const byWeight = players.map((_, index) => index).sort((a, b) => weights[b] - weights[a] || a - b);
+      for (let i = 0; left > 0; i = (i + 1) % byWeight.length, left--) {
+        sizes[byWeight[i]]++;
+      }
+      return sizes;
+    }
+    case 'equal-discard':
+    case 'remainder-to-pot':
+    default:
+      return players.map(() => base);
+  }
+};
+
+/**
+ * Embaralha e distribui as cartas conforme a estratégia escolhida.
+ * Em 'round-robin' as cartas são dadas uma a uma, como numa mesa real.
+ */
+export const dealCards = (
+  cards: Card[],
+  players: string[],
+  random: RandomFn = Math.random,
+  strategy: DealingStrategy = 'equal-discard',
+  handicaps: { [playerId: string]: number } = {}
+): DealResult => {
+  if (players.length === 0) {
+    return { playerCards: {}, pot: [], discarded: cards.map(card => card.id) };
+  }
+
+  const shuffledIds = shuffleArray(cards, random).map(card => card.id);
+  const sizes = getDealSizes(shuffledIds.length, players, strategy, handicaps);
+  const playerCards: { [playerId: string]: string[] } = {};
+  players.forEach(player => { playerCards[player] = []; });
+
+  let dealt = 0;
+  if (strategy === 'round-robin') {
+    for (let round = 0; dealt < shuffledIds.length; round++) {
+      players.forEach((player, index) => {
+        if (round < sizes[index]) {
+          playerCards[player].push(shuffledIds[dealt++]);
+        }
+      });
+    }
+  } else {
+    players.forEach((player, index) => {
+      playerCards[player] = shuffledIds.slice(dealt, dealt + sizes[index]);
+      dealt += sizes[index];
+    });
+  }
+
+  const leftover = shuffledIds.slice(dealt);
+  return {
+    playerCards,
+    pot: strategy === 'remainder-to-pot' ? leftover : [],
+    discarded: strategy === 'remainder-to-pot' ? [] : leftover,
+  };
+};
 
-  return playerCards;
+/**
+ * Distribui cartas entre jogadores de forma perfeitamente igual (a sobra é descartada).
+ */
+export const distributeCards = (
+  cards: Card[],
+  players: string[],
+  random: RandomFn = Math.random
+): { [playerId: string]: string[] } => {
+  return dealCards(cards, players, random, 'equal-discard').playerCards;
 };
 
 
 /**
  * Seleciona jogador aleatório para começar
  */
-export const selectRandomPlayer = (players: string[]): string => {
-  const randomIndex = Math.floor(Math.random() * players.length);
+export const selectRandomPlayer = (players: string[], random: RandomFn = Math.random): string => {
+  const randomIndex = Math.floor(random() * players.length);
   return players[randomIndex];
 };
 
 /**
- * Compara cartas e determina vencedor da rodada
+ * Indica se o menor valor vence no atributo (padrão: o maior vence)
+ */
+export const isLowerBetter = (attribute: string, definitions: AttributeDefinitions = {}): boolean => {
+  return definitions[attribute]?.direction === 'lower-wins';
+};
+
+/**
+ * Retorna o nome de exibição do atributo
+ */
+export const getAttributeLabel = (attribute: string, definitions: AttributeDefinitions = {}): string => {
+  return definitions[attribute]?.label || attribute;
+};
+
+/**
+ * Retorna o grupo da carta (letra do código, ex.: 'A' para 'A1')
+ */
+export const getCardClass = (card: Card): string | null => {
+  return card.code ? card.code.charAt(0).toUpperCase() : null;
+};
+
+/**
+ * Compara cartas e determina vencedor da rodada.
+ * O Super Trunfo vence automaticamente, a menos que haja uma carta do grupo A
+ * na mesa; nesse caso ele perde e a rodada é decidida entre as demais cartas.
+ * Em caso de empate no melhor valor não há vencedor: os jogadores empatados
+ * são retornados em `tiedPlayers` e as cartas vão para o monte acumulado.
  */
 export const compareCards = (
-  roundCards: { [playerNickname: string]: string },
+  roundCards: { [playerId: string]: string },
   attribute: string,
-  allCards: Card[]
-): { winner: string; results: { [playerNickname: string]: { cardId: string; value: number } } } => {
-  const results: { [playerNickname: string]: { cardId: string; value: number } } = {};
-  
-  const isLowerBetter = attribute === 'Fundação';
-  let bestValue = isLowerBetter ? Infinity : -1;
-  let winner = '';
+  allCards: Card[],
+  definitions: AttributeDefinitions = {}
+): {
+  winner: string | null;
+  tiedPlayers: string[];
+  results: { [playerId: string]: { cardId: string; value: number } };
+} => {
+  const results: { [playerId: string]: { cardId: string; value: number } } = {};
+
+  const playedCards = Object.entries(roundCards)
+    .map(([playerId, cardId]) => ({ playerId, cardId, card: allCards.find(c => c.id === cardId) }));
+  const superTrunfo = playedCards.find(({ card }) => card?.isSuperTrunfo);
+  const facesClassA = playedCards.some(({ card }) => card && getCardClass(card) === 'A');
 
-  Object.entries(roundCards).forEach(([playerNickname, cardId]) => {
-    const card = allCards.find(c => c.id === cardId);
+  const lowerWins = isLowerBetter(attribute, definitions);
+  let bestValue = lowerWins ? Infinity : -Infinity;
+  let bestPlayers: string[] = [];
+
+  playedCards.forEach(({ playerId, cardId, card }) => {
     if (card && card.attributes[attribute] !== undefined) {
       const value = card.attributes[attribute];
-      results[playerNickname] = { cardId, value };
-      
-      if (isLowerBetter) {
-        if (value < bestValue) {
-          bestValue = value;
-          winner = playerNickname;
-        }
-      } else {
-        if (value > bestValue) {
-          bestValue = value;
-          winner = playerNickname;
-        }
+      results[playerId] = { cardId, value };
+
+      // Diante de uma carta do grupo A o Super Trunfo não disputa a rodada
+      if (card.isSuperTrunfo && facesClassA) return;
+
+      const isBetter = lowerWins ? value < bestValue : value > bestValue;
+      if (isBetter) {
+        bestValue = value;
+        bestPlayers = [playerId];
+      } else if (value === bestValue) {
+        bestPlayers.push(playerId);
       }
     }
   });
 
-  return { winner, results };
+  if (superTrunfo && !facesClassA) {
+    return { winner: superTrunfo.playerId, tiedPlayers: [], results };
+  }
+
+  if (bestPlayers.length > 1) {
+    return { winner: null, tiedPlayers: bestPlayers, results };
+  }
+
+  return { winner: bestPlayers[0] || null, tiedPlayers: [], results };
 };
 
 /**
@@ -84,10 +229,10 @@ export const compareCards = (
  */
 export const getNextPlayer = (
   currentPlayer: string,
-  players: { [key: string]: Player }
+  players: { [key: string]: Pick<Player, 'status'> }
 ): string => {
-  const playerNicknames = Object.keys(players);
-  const activePlayers = playerNicknames.filter(p => players[p].status === 'active');
+  const playerIds = Object.keys(players);
+  const activePlayers = playerIds.filter(p => players[p].status === 'active');
   
   if (activePlayers.length === 0) {
     return currentPlayer;
@@ -107,7 +252,7 @@ export const checkGameEnd = (players: { [key: string]: Player }): string | null
     const activePlayers = Object.values(players).filter(p => p.status === 'active');
     
     if (activePlayers.length === 1) {
-      return activePlayers[0].nickname;
+      return activePlayers[0].id;
     }
     
     return null;
@@ -115,28 +260,72 @@ export const checkGameEnd = (players: { [key: string]: Player }): string | null
 
 
 /**
- * Formata valores para exibição
+ * Completa a divisão em duplas: mantém os times já escolhidos e coloca os
+ * demais jogadores (na ordem recebida) no time com menos integrantes
  */
-export const formatAttributeValue = (attribute: string, value: number): string => {
-  switch (attribute) {
-    case 'População':
-      return value >= 1000000 
-        ? `${(value / 1000000).toFixed(1)}M` 
-        : `${(value / 1000).toFixed(0)}K`;
-    case 'Área':
-    case 'Área Urbana':
-      return `${value.toLocaleString()} km²`;
-    case 'PIB':
-      return `$${(value / 1000).toFixed(0)}B`;
-    case 'IDH':
-      return `${(value / 1000).toFixed(3)}`;
-    case 'Altitude':
-      return `${value}m`;
-    case 'Fundação':
-      return value.toString();
-    default:
-      return value.toLocaleString();
+export const assignTeams = (
+  players: string[],
+  current: { [player: string]: TeamId | undefined } = {}
+): { [player: string]: TeamId } => {
+  const teams: { [player: string]: TeamId } = {};
+  players.forEach(p => {
+    const team = current[p];
+    if (team) teams[p] = team;
+  });
+
+  players.filter(p => !teams[p]).forEach(p => {
+    const count = (team: TeamId) => Object.values(teams).filter(t => t === team).length;
+    teams[p] = count('blue') <= count('red') ? 'blue' : 'red';
+  });
+  return teams;
+};
+
+/**
+ * Indica se os times estão equilibrados para uma partida 2x2
+ */
+export const areTeamsValid = (teams: { [player: string]: TeamId }): boolean => {
+  const members = Object.values(teams);
+  return members.length === 4 && TEAM_IDS.every(team => members.filter(t => t === team).length === 2);
+};
+
+/**
+ * Intercala os assentos dos times para que os parceiros fiquem frente a frente
+ */
+export const arrangeTeamSeats = (players: string[], teams: { [player: string]: TeamId }): string[] => {
+  const [first, second] = TEAM_IDS.map(team => players.filter(p => teams[p] === team));
+  const seats: string[] = [];
+  for (let i = 0; i < Math.max(first.length, second.length); i++) {
+    if (first[i]) seats.push(first[i]);
+    if (second[i]) seats.push(second[i]);
+  }
+  return [...seats, ...players.filter(p => !seats.includes(p))];
+};
+
+/**
+ * Retorna o time sobrevivente se todos os jogadores ativos forem do mesmo time
+ */
+export const getSurvivingTeam = (
+  activePlayers: string[],
+  teams: { [player: string]: TeamId }
+): TeamId | null => {
+  const activeTeams = Array.from(new Set(activePlayers.map(p => teams[p])));
+  return activeTeams.length === 1 ? activeTeams[0] : null;
+};
+
+/**
+ * Formata valores para exibição conforme os metadados do atributo
+ */
+export const formatAttributeValue = (
+  attribute: string,
+  value: number,
+  definitions: AttributeDefinitions = {}
+): string => {
+  const definition = definitions[attribute];
+  if (definition?.format) {
+    return definition.format(value);
   }
+  const formatted = value.toLocaleString();
+  return definition?.unit ? `${formatted} ${definition.unit}` : formatted;
 };
 
 /**
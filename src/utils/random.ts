@@ -0,0 +1,53 @@
+// src/utils/random.ts
+
+/* eslint-disable no-bitwise */
+
+/**
+ * Função geradora de números aleatórios no intervalo [0, 1)
+ */
+export type RandomFn = () => number;
+
+export interface SeededRandom {
+  next: RandomFn;
+  getState: () => number;
+}
+
+/**
+ * Cria um gerador determinístico (mulberry32) a partir de uma semente.
+ * O estado pode ser salvo com getState() e retomado criando outro gerador
+ * com esse mesmo valor.
+ */
+export const createSeededRandom = (seed: number): SeededRandom => {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return { next, getState: () => state };
+};
+
+/**
+ * Gera uma nova semente aleatória
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296);
+};
+
+/**
+ * Gera um sal aleatório (hexadecimal) para os compromissos de carta
+ */
+export const generateSalt = (): string => {
+  return Array.from({ length: 4 }, () => generateSeed().toString(16).padStart(8, '0')).join('');
+};
+
+/**
+ * Gera um identificador aleatório de jogador (16 caracteres hexadecimais)
+ */
+export const generatePlayerId = (): string => {
+  return Array.from({ length: 2 }, () => generateSeed().toString(16).padStart(8, '0')).join('');
+};
@@ -35,11 +35,11 @@ export const formatRoomCode = (code: string): string => {
 /**
  * Verifica se o jogador é o host da sala
  * @param room - Sala atual
- * @param nickname - Nickname do jogador
+ * @param playerId - ID do jogador
  * @returns true se for host
  */
-export const isPlayerHost = (room: Room, nickname: string): boolean => {
-  return room.hostNickname === nickname;
+export const isPlayerHost = (room: Room, playerId: string): boolean => {
+  return room.hostId === playerId;
 };
 
 /**
@@ -49,4 +49,39 @@ export const isPlayerHost = (room: Room, nickname: string): boolean => {
  */
 export const getPlayerCount = (room: Room): number => {
   return Object.keys(room.players).length;
-};
\ No newline at end of file
+};
+// Maior horário em ms com 13 dígitos: subtrair dele inverte a ordem de criação
+const MAX_LISTING_TIME = 9999999999999;
+
+/**
+ * Chave usada para listar as salas públicas direto do banco, já na ordem de
+ * exibição: baralho, vagas livres (as mais cheias primeiro) e criação (as
+ * mais novas primeiro). Salas privadas, em jogo ou lotadas não são listadas.
+ * @param room - Sala atual
+ * @returns Chave de listagem, ou null se a sala não deve aparecer
+ */
+export const getRoomListingKey = (room: Room): string | null => {
+  const freeSeats = room.maxPlayers - getPlayerCount(room);
+  if (room.isPrivate || room.status !== 'waiting' || freeSeats <= 0) {
+    return null;
+  }
+  const createdAt = Date.parse(room.createdAt) || 0;
+  const age = String(MAX_LISTING_TIME - createdAt).padStart(13, '0');
+  return `${room.deckId}|${String(freeSeats).padStart(2, '0')}|${age}`;
+};
+
+/**
+ * Retorna a sala com a chave de listagem atualizada
+ * @param room - Sala atual
+ * @returns Cópia da sala com `listing` recalculado
+ */
+export const withListing = (room: Room): Room => {
+  const listing = getRoomListingKey(room);
+  const updated: Room = { ...room };
+  if (listing) {
+    updated.listing = listing;
+  } else {
+    delete updated.listing; // O banco não aceita undefined
+  }
+  return updated;
+};
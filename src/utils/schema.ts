@@ -0,0 +1,244 @@
+// src/utils/schema.ts
+
+import { GamePhase, GameState, Player, Room, RoundResult } from '../types';
+
+/**
+ * Versões atuais do formato das salas e partidas gravadas no banco.
+ * Nós sem `schemaVersion` são da versão 1, anterior aos IDs de jogador.
+ */
+export const ROOM_SCHEMA_VERSION = 2;
+export const GAME_SCHEMA_VERSION = 3;
+
+export type SchemaErrorCode = 'NEWER_VERSION' | 'OLDER_VERSION' | 'INVALID_DATA';
+
+/**
+ * Erro lançado quando um nó lido do banco não pode ser usado por esta versão
+ * do app: foi gravado por uma versão mais nova, por uma antiga que não dá
+ * para atualizar ou está incompleto
+ */
+export class SchemaError extends Error {
+  code: SchemaErrorCode;
+
+  constructor(code: SchemaErrorCode, message: string) {
+    super(message);
+    this.name = 'SchemaError';
+    this.code = code;
+    // Mantém o instanceof funcionando quando a classe é transpilada para ES5
+    Object.setPrototypeOf(this, SchemaError.prototype);
+  }
+}
+
+export const isSchemaError = (error: unknown, code?: SchemaErrorCode): error is SchemaError => {
+  return error instanceof SchemaError && (!code || error.code === code);
+};
+
+type RawNode = { [key: string]: unknown };
+
+const ROOM_STATUSES: Room['status'][] = ['waiting', 'playing', 'finished'];
+
+const GAME_PHASES: GamePhase[] = [
+  'spinning',
+  'selecting',
+  'revealing',
+  'animating-play',
+  'comparing-on-table',
+  'animating-win',
+  'finished',
+];
+
+const isNode = (value: unknown): value is RawNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isOneOf = <T extends string>(options: readonly T[]) => (value: unknown): value is T =>
+  options.some(option => option === value);
+
+const isRoomStatus = isOneOf(ROOM_STATUSES);
+
+const isGamePhase = isOneOf(GAME_PHASES);
+
+/**
+ * Nó cujos filhos passam todos na verificação `isEntry`
+ */
+const isNodeOf = <T>(value: unknown, isEntry: (entry: unknown) => entry is T): value is { [key: string]: T } =>
+  isNode(value) && Object.values(value).every(isEntry);
+
+/**
+ * Jogador gravado sob a chave `key`. Nós parciais (ex.: onDisconnect depois
+ * da saída) ficam sem id e são aceitos: os serviços os ignoram ou removem
+ */
+const isPlayerNode = (value: unknown, key: string): value is Player =>
+  isNode(value) && (value.id === undefined || (value.id === key && isString(value.nickname)));
+
+const isRoundResult = (value: unknown): value is RoundResult =>
+  isNode(value)
+  && typeof value.roundNumber === 'number'
+  && isString(value.selectedAttribute)
+  && isNode(value.playerCards);
+
+/**
+ * Converte horários gravados como texto ISO (versão 1) para milissegundos
+ */
+const toMs = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+};
+
+/**
+ * Migrações de sala: cada uma leva um nó da versão indicada para a seguinte
+ */
+const ROOM_MIGRATIONS: { [fromVersion: number]: (room: RawNode) => RawNode } = {
+  // Jogadores passam a ter ID; na versão 1 o apelido era a chave e continua valendo como ID
+  1: room => {
+    const players: { [key: string]: RawNode } = {};
+    Object.entries(isNode(room.players) ? room.players : {}).forEach(([key, player]) => {
+      if (isNode(player)) {
+        players[key] = { ...player, id: player.id || key };
+      }
+    });
+    const migrated: RawNode = {
+      ...room,
+      hostId: room.hostId || room.hostNickname,
+      players,
+      lastActivity: toMs(room.lastActivity) ?? toMs(room.createdAt) ?? 0,
+    };
+    delete migrated.hostNickname;
+    return migrated;
+  },
+};
+
+const unfinishedOldGame = (): SchemaError => new SchemaError(
+  'OLDER_VERSION',
+  'Esta partida foi iniciada por uma versão antiga do app e não pode continuar. Comece uma nova partida.'
+);
+
+/**
+ * Migrações de partida: cada uma leva um nó da versão indicada para a seguinte
+ */
+const GAME_MIGRATIONS: { [fromVersion: number]: (game: RawNode) => RawNode } = {
+  // Sem apelidos guardados na partida, o ID (que era o apelido) é exibido.
+  // A versão 1 não tinha compromissos de carta (cardCommitments/cardSalts):
+  // uma rodada em andamento nunca seria resolvida, então só partidas
+  // encerradas são aproveitadas.
+  1: game => {
+    if (game.gamePhase !== 'finished') {
+      throw unfinishedOldGame();
+    }
+    const players: string[] = isStringList(game.players)
+      ? game.players
+      : Object.keys(isNode(game.playerCards) ? game.playerCards : {});
+    const migrated: RawNode = {
+      ...game,
+      playerNames: game.playerNames || Object.fromEntries(players.map(p => [p, p])),
+    };
+    if (typeof migrated.lastActivity !== 'number') {
+      delete migrated.lastActivity;
+    }
+    return migrated;
+  },
+  // As mãos e a semente saíram do nó público e só o anfitrião guarda a partida
+  // completa. Uma partida da versão 2 em andamento não tem essa parte separada.
+  2: game => {
+    if (game.gamePhase !== 'finished') {
+      throw unfinishedOldGame();
+    }
+    return game;
+  },
+};
+
+const migrate = (
+  node: RawNode,
+  currentVersion: number,
+  migrations: { [fromVersion: number]: (node: RawNode) => RawNode },
+  label: string
+): RawNode => {
+  let version = typeof node.schemaVersion === 'number' ? node.schemaVersion : 1;
+  if (version > currentVersion) {
+    throw new SchemaError(
+      'NEWER_VERSION',
+      `Esta ${label} foi criada por uma versão mais nova do app. Atualize o app para continuar.`
+    );
+  }
+  let migrated = node;
+  while (version < currentVersion) {
+    migrated = migrations[version](migrated);
+    version++;
+  }
+  return { ...migrated, schemaVersion: currentVersion };
+};
+
+const invalid = (label: string, detail: string): SchemaError =>
+  new SchemaError('INVALID_DATA', `Os dados da ${label} estão incompletos (${detail}).`);
+
+/**
+ * Valida uma sala lida do banco, atualizando nós de versões antigas.
+ * Lança SchemaError se ela não puder ser usada por esta versão do app.
+ */
+export const parseRoom = (value: unknown): Room => {
+  if (!isNode(value)) throw invalid('sala', 'formato');
+  const room = migrate(value, ROOM_SCHEMA_VERSION, ROOM_MIGRATIONS, 'sala');
+  const { id, code, hostId, deckId, deckName, status, lastActivity, createdAt } = room;
+
+  if (!isString(id)) throw invalid('sala', 'id');
+  if (!isString(code)) throw invalid('sala', 'code');
+  if (!isString(hostId)) throw invalid('sala', 'hostId');
+  if (!isString(deckId)) throw invalid('sala', 'deckId');
+  if (!isRoomStatus(status)) throw invalid('sala', `status "${String(status)}"`);
+  if (typeof lastActivity !== 'number') throw invalid('sala', 'lastActivity');
+
+  const players: { [playerId: string]: Player } = {};
+  Object.entries(isNode(room.players) ? room.players : {}).forEach(([key, player]) => {
+    if (!isPlayerNode(player, key)) throw invalid('sala', `jogador ${key}`);
+    players[key] = player;
+  });
+
+  return {
+    ...room,
+    id,
+    code,
+    hostId,
+    deckId,
+    deckName: isString(deckName) ? deckName : deckId,
+    status,
+    lastActivity,
+    createdAt: isString(createdAt) ? createdAt : new Date(lastActivity).toISOString(),
+    players,
+    isPrivate: !!room.isPrivate,
+    maxPlayers: typeof room.maxPlayers === 'number' ? room.maxPlayers : 4,
+  };
+};
+
+/**
+ * Valida uma partida lida do banco, atualizando nós de versões antigas e
+ * preenchendo os campos que o Firebase omite quando estão vazios.
+ * Lança SchemaError se ela não puder ser usada por esta versão do app.
+ */
+export const parseGameState = (value: unknown): GameState => {
+  if (!isNode(value)) throw invalid('partida', 'formato');
+  const game = migrate(value, GAME_SCHEMA_VERSION, GAME_MIGRATIONS, 'partida');
+  const { gamePhase, currentRound, currentPlayer, selectedAttribute, roundWinner, gameWinner } = game;
+
+  if (!isGamePhase(gamePhase)) throw invalid('partida', `fase "${String(gamePhase)}"`);
+  if (typeof currentRound !== 'number') throw invalid('partida', 'currentRound');
+  if (!isString(currentPlayer)) throw invalid('partida', 'currentPlayer');
+
+  return {
+    ...game,
+    gamePhase,
+    currentRound,
+    currentPlayer,
+    playerCards: isNodeOf(game.playerCards, isStringList) ? game.playerCards : {},
+    currentRoundCards: isNodeOf(game.currentRoundCards, isString) ? game.currentRoundCards : {},
+    selectedAttribute: isString(selectedAttribute) ? selectedAttribute : null,
+    roundWinner: isString(roundWinner) ? roundWinner : null,
+    gameWinner: isString(gameWinner) ? gameWinner : null,
+    roundHistory: Array.isArray(game.roundHistory) ? game.roundHistory.filter(isRoundResult) : [],
+  };
+};
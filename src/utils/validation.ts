@@ -1,5 +1,10 @@
 import { ValidationResult } from '../types';
 
+/**
+ * Avatares disponíveis para o perfil do jogador
+ */
+export const AVATARS = ['😊', '😎', '😂', '🥳', '🤯', '👽', '🦊', '👻'];
+
 /**
  * Valida o nickname do usuário
  * @param nickname - String a ser validada